@@ -2,9 +2,10 @@ import { controledMihomoConfigPath } from '../utils/dirs'
 import { readFile, writeFile } from 'fs/promises'
 import yaml from 'yaml'
 import { generateProfile } from '../core/factory'
-import { getAppConfig } from './app'
 import { defaultControledMihomoConfig } from '../utils/template'
 import { deepMerge } from '../utils/merge'
+import { getAppConfig } from './app'
+import { getProfile, getProfileConfig, getProfileItem } from './profile'
 
 let controledMihomoConfig: Partial<IMihomoConfig> // mihomo.yaml
 
@@ -18,9 +19,75 @@ export async function getControledMihomoConfig(force = false): Promise<Partial<I
   return controledMihomoConfig
 }
 
-export async function patchControledMihomoConfig(patch: Partial<IMihomoConfig>): Promise<void> {
-  const { controlDns = true, controlSniff = true } = await getAppConfig()
+// 由应用在运行时切换或依赖的字段，不允许被订阅级设置覆盖
+const runtimeKeys = [
+  'mode',
+  'external-controller',
+  'external-controller-pipe',
+  'external-controller-unix',
+  'secret'
+]
+
+// 订阅级的内核设置，生成配置时覆盖全局设置
+export async function getProfileMihomoConfig(
+  id: string | undefined
+): Promise<Partial<IMihomoConfig>> {
+  const { mihomoConfig } = (await getProfileItem(id)) || {}
+  const result = structuredClone(mihomoConfig ?? {})
+  for (const key of runtimeKeys) delete result[key]
+  if (result.tun) delete result.tun.enable
+  return result
+}
+
+// 各分区包含的顶层字段
+export const configSections: Record<ConfigSection, string[]> = {
+  dns: ['dns'],
+  sniffer: ['sniffer'],
+  tun: ['tun'],
+  hosts: ['hosts'],
+  ports: ['mixed-port', 'socks-port', 'port', 'redir-port', 'tproxy-port'],
+  'geox-url': ['geox-url']
+}
 
+// 按分区策略决定订阅与应用控制配置的优先级，默认合并且应用配置优先
+// 直接修改传入的配置，合并时应用控制的配置覆盖订阅
+export function applyConfigPolicy(
+  profile: Partial<IMihomoConfig>,
+  controled: Partial<IMihomoConfig>,
+  configPolicy: Partial<Record<ConfigSection, ConfigPolicy>>
+): void {
+  for (const [section, keys] of Object.entries(configSections)) {
+    const policy = configPolicy[section] ?? 'merge'
+    for (const key of keys) {
+      if (controled[key] === undefined) continue
+      // 订阅未提供的字段仍使用应用配置
+      if (policy === 'profile' && profile[key] !== undefined) {
+        // TUN 开关由应用在运行时切换，不随策略交给订阅
+        const enable = key === 'tun' ? controled.tun?.enable : undefined
+        delete controled[key]
+        if (enable !== undefined) controled.tun = { enable } as IMihomoTunConfig
+      }
+      if (policy === 'app') delete profile[key]
+    }
+  }
+}
+
+// 按分区策略合并全局设置、当前订阅和订阅级设置后实际生效的内核设置
+// 不执行覆写，避免读取端口等设置时运行脚本
+export async function getEffectiveMihomoConfig(): Promise<Partial<IMihomoConfig>> {
+  const { current } = await getProfileConfig()
+  const { configPolicy = {} } = await getAppConfig()
+  const profile = await getProfile(current)
+  const profileSections: Partial<IMihomoConfig> = {}
+  for (const key of Object.values(configSections).flat()) {
+    if (profile[key] !== undefined) profileSections[key] = structuredClone(profile[key])
+  }
+  const controled = structuredClone(await getControledMihomoConfig())
+  applyConfigPolicy(profileSections, controled, configPolicy)
+  return deepMerge(deepMerge(profileSections, controled), await getProfileMihomoConfig(current))
+}
+
+export async function patchControledMihomoConfig(patch: Partial<IMihomoConfig>): Promise<void> {
   if (patch.hosts) {
     controledMihomoConfig.hosts = patch.hosts
   }
@@ -30,11 +97,11 @@ export async function patchControledMihomoConfig(patch: Partial<IMihomoConfig>):
   }
   controledMihomoConfig = deepMerge(controledMihomoConfig, patch)
 
-  // 从不接管状态恢复
-  if (controlDns && controledMihomoConfig.dns?.ipv6 === undefined) {
+  // 补全缺失的 DNS 和嗅探配置
+  if (controledMihomoConfig.dns?.ipv6 === undefined) {
     controledMihomoConfig.dns = defaultControledMihomoConfig.dns
   }
-  if (controlSniff && !controledMihomoConfig.sniffer) {
+  if (!controledMihomoConfig.sniffer) {
     controledMihomoConfig.sniffer = defaultControledMihomoConfig.sniffer
   }
 
@@ -1,5 +1,12 @@
 export { getAppConfig, patchAppConfig } from './app'
-export { getControledMihomoConfig, patchControledMihomoConfig } from './controledMihomo'
+export {
+  getControledMihomoConfig,
+  patchControledMihomoConfig,
+  getProfileMihomoConfig,
+  getEffectiveMihomoConfig,
+  applyConfigPolicy,
+  configSections
+} from './controledMihomo'
 export {
   getProfile,
   getCurrentProfileItem,
@@ -13,9 +20,18 @@ export {
   createProfile,
   getProfileStr,
   setProfileStr,
+  parseProfileStr,
   changeCurrentProfile,
-  updateProfileItem
+  updateProfileItem,
+  markProfileUpdateFailed,
+  acceptProfileUpdate,
+  discardProfileUpdate
 } from './profile'
+export {
+  getProfileHistory,
+  getProfileHistoryStr,
+  restoreProfileHistory
+} from './profileHistory'
 export {
   getOverrideConfig,
   setOverrideConfig,
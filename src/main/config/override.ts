@@ -1,5 +1,5 @@
 import { overrideConfigPath, overridePath } from '../utils/dirs'
-import { getControledMihomoConfig } from './controledMihomo'
+import { getEffectiveMihomoConfig } from './controledMihomo'
 import { readFile, writeFile, rm } from 'fs/promises'
 import { existsSync } from 'fs'
 import axios from 'axios'
@@ -64,11 +64,13 @@ export async function createOverride(item: Partial<IOverrideItem>): Promise<IOve
     ext: item.ext || 'js',
     url: item.url,
     global: item.global || false,
+    enabled: item.enabled,
+    params: item.params,
     updated: new Date().getTime()
   } as IOverrideItem
   switch (newItem.type) {
     case 'remote': {
-      const { 'mixed-port': mixedPort = 7890 } = await getControledMihomoConfig()
+      const { 'mixed-port': mixedPort = 7890 } = await getEffectiveMihomoConfig()
       if (!item.url) throw new Error('Empty URL')
       const res = await axios.get(item.url, {
         proxy: {
@@ -1,16 +1,38 @@
-import { getControledMihomoConfig } from './controledMihomo'
-import { mihomoProfileWorkDir, mihomoWorkDir, profileConfigPath, profilePath } from '../utils/dirs'
-import { addProfileUpdater } from '../core/profileUpdater'
-import { readFile, rm, writeFile } from 'fs/promises'
-import { restartCore } from '../core/manager'
+import { getEffectiveMihomoConfig } from './controledMihomo'
+import {
+  mihomoProfileWorkDir,
+  mihomoWorkDir,
+  profileConfigPath,
+  profileHistoryDir,
+  profilePath,
+  profilePendingPath
+} from '../utils/dirs'
+import {
+  addProfileUpdater,
+  removeProfileUpdater,
+  resetProfileRetry
+} from '../core/profileUpdater'
+import { addProfileWatcher, removeProfileWatcher } from '../core/profileWatcher'
+import { addProfileHistory, removeProfileHistory } from './profileHistory'
+import { mkdir, readFile, rm, writeFile } from 'fs/promises'
+import { checkProfileStr, restartCore } from '../core/manager'
+import { generateCompositeProfile, stringifyProfile } from '../core/factory'
 import { getAppConfig } from './app'
 import { existsSync } from 'fs'
 import axios, { AxiosResponse } from 'axios'
 import yaml from 'yaml'
 import { defaultProfile } from '../utils/template'
+import { convertProfileStr } from '../utils/convert'
+import { diffProfile, isEmptyDiff } from '../utils/profileDiff'
 import { subStorePort } from '../resolve/server'
 import { join } from 'path'
-import { app } from 'electron'
+import https from 'https'
+import { createHash } from 'crypto'
+import { app, Notification } from 'electron'
+import { t } from 'i18next'
+import { mainWindow } from '..'
+import { checkSubscriptionAlerts } from '../resolve/subscriptionAlert'
+import { triggerSysProxy } from '../sys/sysproxy'
 
 let profileConfig: IProfileConfig // profile.yaml
 
@@ -42,6 +64,7 @@ export async function changeCurrentProfile(id: string): Promise<void> {
     return
   }
 
+  const { 'mixed-port': prevPort } = await getEffectiveMihomoConfig()
   config.current = id
   await setProfileConfig(config)
 
@@ -53,6 +76,10 @@ export async function changeCurrentProfile(id: string): Promise<void> {
     await setProfileConfig(config)
     throw e
   }
+  // 订阅级设置修改了代理端口时同步系统代理
+  const { sysProxy } = await getAppConfig()
+  const { 'mixed-port': port } = await getEffectiveMihomoConfig()
+  if (sysProxy.enable && port !== prevPort) await triggerSysProxy(true)
 }
 
 export async function updateProfileItem(item: IProfileItem): Promise<void> {
@@ -78,7 +105,10 @@ export async function addProfileItem(item: Partial<IProfileItem>): Promise<void>
   if (!config.current) {
     await changeCurrentProfile(newItem.id)
   }
+  resetProfileRetry(newItem.id)
   await addProfileUpdater(newItem)
+  await addProfileWatcher(newItem)
+  await checkSubscriptionAlerts()
 }
 
 export async function removeProfileItem(id: string): Promise<void> {
@@ -97,6 +127,10 @@ export async function removeProfileItem(id: string): Promise<void> {
   if (existsSync(profilePath(id))) {
     await rm(profilePath(id))
   }
+  await removeProfileHistory(id)
+  await removeProfileWatcher(id)
+  await removeProfileUpdater(id)
+  await updateCompositeProfiles(id)
   if (shouldRestart) {
     await restartCore()
   }
@@ -114,55 +148,63 @@ export async function createProfile(item: Partial<IProfileItem>): Promise<IProfi
   const id = item.id || new Date().getTime().toString(16)
   const newItem = {
     id,
-    name: item.name || (item.type === 'remote' ? 'Remote File' : 'Local File'),
+    name:
+      item.name ||
+      (item.type === 'remote'
+        ? 'Remote File'
+        : item.type === 'composite'
+          ? 'Composite File'
+          : 'Local File'),
     type: item.type,
     url: item.url,
+    folder: item.folder,
+    tags: item.tags,
     substore: item.substore || false,
     interval: item.interval || 0,
     override: item.override || [],
     useProxy: item.useProxy || false,
+    mirrors: item.mirrors || [],
+    timeout: item.timeout,
+    proxyFallback: item.proxyFallback || false,
+    userAgent: item.userAgent,
+    headers: item.headers,
+    skipCertVerify: item.skipCertVerify || false,
     allowFixedInterval: item.allowFixedInterval || false,
+    alertState: item.alertState,
+    confirmUpdate: item.confirmUpdate || false,
+    lastDiff: item.lastDiff,
+    pendingDiff: item.pendingDiff,
+    discardedHash: item.discardedHash,
+    proxyFilter: item.proxyFilter,
+    mihomoConfig: item.mihomoConfig,
+    overrideArgs: item.overrideArgs,
+    overrideOrder: item.overrideOrder,
+    skipGlobalOverride: item.skipGlobalOverride,
     updated: new Date().getTime()
   } as IProfileItem
   switch (newItem.type) {
     case 'remote': {
-      const { userAgent } = await getAppConfig()
-      const { 'mixed-port': mixedPort = 7890 } = await getControledMihomoConfig()
       if (!item.url) throw new Error('Empty URL')
-      let res: AxiosResponse
-      if (newItem.substore) {
-        const urlObj = new URL(`http://127.0.0.1:${subStorePort}${item.url}`)
-        urlObj.searchParams.set('target', 'ClashMeta')
-        urlObj.searchParams.set('noCache', 'true')
-        if (newItem.useProxy) {
-          urlObj.searchParams.set('proxy', `http://127.0.0.1:${mixedPort}`)
-        } else {
-          urlObj.searchParams.delete('proxy')
-        }
-        res = await axios.get(urlObj.toString(), {
-          headers: {
-            'User-Agent': userAgent || `mihomo.party/v${app.getVersion()} (clash.meta)`
-          },
-          responseType: 'text'
-        })
-      } else {
-        res = await axios.get(item.url, {
-          proxy: newItem.useProxy
-            ? {
-                protocol: 'http',
-                host: '127.0.0.1',
-                port: mixedPort
-              }
-            : false,
-          headers: {
-            'User-Agent': userAgent || `mihomo.party/v${app.getVersion()} (clash.meta)`
-          },
-          responseType: 'text'
-        })
-      }
+      const prevItem = await getProfileItem(id)
+      const localHash = existsSync(profilePath(id))
+        ? hashContent(await readFile(profilePath(id), 'utf-8'))
+        : undefined
+      // 本地文件未被修改且地址未变时才发送条件请求
+      const conditional =
+        !!localHash && prevItem?.hash === localHash && prevItem?.url === newItem.url
+      const { res, url } = await downloadProfile(newItem, {
+        ...(conditional && prevItem?.etag ? { 'If-None-Match': prevItem.etag } : {}),
+        ...(conditional && prevItem?.lastModified
+          ? { 'If-Modified-Since': prevItem.lastModified }
+          : {})
+      })
+      newItem.lastMirror = url
 
-      const data = res.data
       const headers = res.headers
+      if (res.status === 304) {
+        newItem.home = prevItem?.home
+        newItem.extra = prevItem?.extra
+      }
       if (headers['content-disposition'] && newItem.name === 'Remote File') {
         newItem.name = parseFilename(headers['content-disposition'])
       }
@@ -177,11 +219,77 @@ export async function createProfile(item: Partial<IProfileItem>): Promise<IProfi
       if (headers['subscription-userinfo']) {
         newItem.extra = parseSubinfo(headers['subscription-userinfo'])
       }
+      newItem.etag = headers['etag'] || (res.status === 304 ? prevItem?.etag : undefined)
+      newItem.lastModified =
+        headers['last-modified'] || (res.status === 304 ? prevItem?.lastModified : undefined)
+      // 订阅内容未变化时不写入文件，避免重启内核
+      if (res.status === 304) {
+        newItem.hash = localHash
+        break
+      }
+      const data = convertProfileStr(res.data)
+      newItem.hash = hashContent(data)
+      if (newItem.hash === localHash) {
+        await clearPendingProfile(newItem)
+        break
+      }
+      // 已被用户放弃的更新不再提示
+      if (newItem.hash === item.discardedHash) break
+      try {
+        await checkProfileStr(id, data)
+      } catch (e) {
+        await rejectProfileUpdate(id, e)
+        throw e
+      }
+      const diff = existsSync(profilePath(id))
+        ? diffProfile(await readFile(profilePath(id), 'utf-8'), data)
+        : undefined
+      if (diff && !isEmptyDiff(diff) && item.confirmUpdate) {
+        await holdProfileUpdate(newItem, data, diff)
+        break
+      }
       await setProfileStr(id, data)
+      await clearPendingProfile(newItem)
+      if (diff && !isEmptyDiff(diff)) {
+        newItem.lastDiff = diff
+        await notifyProfileDiff(newItem, diff, false)
+      }
       break
     }
     case 'local': {
-      const data = item.file || ''
+      const data = convertProfileStr(item.file || '')
+      await setProfileStr(id, data)
+      break
+    }
+    case 'linked': {
+      if (!item.path) throw new Error('Empty path')
+      newItem.path = item.path
+      const data = convertProfileStr(await readFile(item.path, 'utf-8'))
+      if (existsSync(profilePath(id)) && (await readFile(profilePath(id), 'utf-8')) === data) {
+        break
+      }
+      try {
+        await checkProfileStr(id, data)
+      } catch (e) {
+        await rejectProfileUpdate(id, e)
+        throw e
+      }
+      await setProfileStr(id, data)
+      break
+    }
+    case 'composite': {
+      newItem.sources = item.sources ?? []
+      newItem.primary = item.primary
+      const data = stringifyProfile(await generateCompositeProfile(newItem))
+      if (existsSync(profilePath(id)) && (await readFile(profilePath(id), 'utf-8')) === data) {
+        break
+      }
+      try {
+        await checkProfileStr(id, data)
+      } catch (e) {
+        await rejectProfileUpdate(id, e)
+        throw e
+      }
       await setProfileStr(id, data)
       break
     }
@@ -189,6 +297,20 @@ export async function createProfile(item: Partial<IProfileItem>): Promise<IProfi
   return newItem
 }
 
+// 来源订阅变化后重新生成引用它的组合订阅
+async function updateCompositeProfiles(id: string): Promise<void> {
+  const { items } = await getProfileConfig()
+  const composites = items.filter((i) => i.type === 'composite' && i.sources?.includes(id))
+  for (const item of composites) {
+    try {
+      await addProfileItem(item)
+    } catch {
+      // 生成失败时保留上一次的内容
+    }
+  }
+  if (composites.length > 0) mainWindow?.webContents.send('profileConfigUpdated')
+}
+
 export async function getProfileStr(id: string | undefined): Promise<string> {
   if (existsSync(profilePath(id || 'default'))) {
     return await readFile(profilePath(id || 'default'), 'utf-8')
@@ -199,18 +321,203 @@ export async function getProfileStr(id: string | undefined): Promise<string> {
 
 export async function setProfileStr(id: string, content: string): Promise<void> {
   const { current } = await getProfileConfig()
+  if (existsSync(profilePath(id))) {
+    const previous = await readFile(profilePath(id), 'utf-8')
+    if (previous !== content) {
+      await addProfileHistory(id, previous, await getProfileItem(id))
+    }
+  }
   await writeFile(profilePath(id), content, 'utf-8')
   if (current === id) await restartCore()
+  await updateCompositeProfiles(id)
 }
 
 export async function getProfile(id: string | undefined): Promise<IMihomoConfig> {
   const profile = await getProfileStr(id)
-  
+  let result = parseProfileStr(profile) || {}
+  if (typeof result !== 'object') result = {}
+  return result as IMihomoConfig
+}
+
+export function parseProfileStr(profile: string): unknown {
   // 替换 防止错误使用科学记数法解析
   const patchedProfile = profile.replace(/(\w+:\s*)(\d+E\d+)(\s|$)/gi, '$1"$2"$3')
-  let result = yaml.parse(patchedProfile, { merge: true }) || {}
-  if (typeof result !== 'object') result = {}
-  return result
+  return yaml.parse(patchedProfile, { merge: true })
+}
+
+// 依次尝试主地址和镜像地址，开启代理回退时先直连再通过 mixed-port 代理
+async function downloadProfile(
+  item: IProfileItem,
+  conditionalHeaders: Record<string, string> = {}
+): Promise<{ res: AxiosResponse; url: string }> {
+  const { userAgent } = await getAppConfig()
+  const { 'mixed-port': mixedPort = 7890 } = await getEffectiveMihomoConfig()
+  const {
+    url = '',
+    mirrors = [],
+    substore = false,
+    useProxy = false,
+    proxyFallback = false,
+    timeout = 30,
+    skipCertVerify = false
+  } = item
+  const headers = {
+    ...item.headers,
+    ...conditionalHeaders,
+    'User-Agent': item.userAgent || userAgent || `mihomo.party/v${app.getVersion()} (clash.meta)`
+  }
+  const validateStatus = (status: number): boolean =>
+    (status >= 200 && status < 300) || status === 304
+  const httpsAgent = skipCertVerify ? new https.Agent({ rejectUnauthorized: false }) : undefined
+  const urls = substore ? [url] : [url, ...mirrors.filter(Boolean)]
+  const proxyModes = useProxy ? [true] : proxyFallback ? [false, true] : [false]
+  const errors: string[] = []
+  for (const viaProxy of proxyModes) {
+    for (const target of urls) {
+      try {
+        if (substore) {
+          const urlObj = new URL(`http://127.0.0.1:${subStorePort}${target}`)
+          urlObj.searchParams.set('target', 'ClashMeta')
+          urlObj.searchParams.set('noCache', 'true')
+          if (viaProxy) {
+            urlObj.searchParams.set('proxy', `http://127.0.0.1:${mixedPort}`)
+          } else {
+            urlObj.searchParams.delete('proxy')
+          }
+          // Sub-Store 通过 ua 参数下载远程订阅，请求头随请求一并转发
+          urlObj.searchParams.set('ua', headers['User-Agent'])
+          const res = await axios.get(urlObj.toString(), {
+            headers,
+            httpsAgent,
+            timeout: timeout * 1000,
+            validateStatus,
+            responseType: 'text'
+          })
+          return { res, url: target }
+        }
+        const res = await axios.get(target, {
+          proxy: viaProxy
+            ? {
+                protocol: 'http',
+                host: '127.0.0.1',
+                port: mixedPort
+              }
+            : false,
+          headers,
+          httpsAgent,
+          timeout: timeout * 1000,
+          validateStatus,
+          responseType: 'text'
+        })
+        return { res, url: target }
+      } catch (e) {
+        errors.push(`${target}${viaProxy ? ' (proxy)' : ''}: ${e instanceof Error ? e.message : e}`)
+      }
+    }
+  }
+  throw new Error(errors.join('\n'))
+}
+
+function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+// 记录被拒绝的更新原因，原订阅文件保持不变
+async function rejectProfileUpdate(id: string, e: unknown): Promise<void> {
+  const item = (await getProfileConfig()).items.find((i) => i.id === id)
+  if (!item) return
+  await updateProfileItem({
+    ...item,
+    rejectReason: e instanceof Error ? e.message : `${e}`,
+    rejectTime: new Date().getTime(),
+    // 同一次失败只保留拒绝原因
+    updateError: undefined,
+    updateFailures: undefined,
+    updateFailedTime: undefined
+  })
+  mainWindow?.webContents.send('profileConfigUpdated')
+}
+
+// 需要确认的更新先保存到待确认文件，内容相同时不重复提醒
+async function holdProfileUpdate(
+  item: IProfileItem,
+  content: string,
+  diff: IProfileDiff
+): Promise<void> {
+  const pendingPath = profilePendingPath(item.id)
+  const unchanged = existsSync(pendingPath) && (await readFile(pendingPath, 'utf-8')) === content
+  if (!existsSync(profileHistoryDir(item.id))) {
+    await mkdir(profileHistoryDir(item.id), { recursive: true })
+  }
+  await writeFile(pendingPath, content, 'utf-8')
+  if (unchanged && item.pendingDiff) return
+  item.pendingDiff = diff
+  await notifyProfileDiff(item, diff, true)
+}
+
+async function clearPendingProfile(item: IProfileItem): Promise<void> {
+  item.pendingDiff = undefined
+  if (existsSync(profilePendingPath(item.id))) {
+    await rm(profilePendingPath(item.id))
+  }
+}
+
+export async function acceptProfileUpdate(id: string): Promise<void> {
+  const item = await getProfileItem(id)
+  if (!item) throw new Error('Profile not found')
+  if (!existsSync(profilePendingPath(id))) throw new Error('No pending update')
+  const content = await readFile(profilePendingPath(id), 'utf-8')
+  await setProfileStr(id, content)
+  const lastDiff = item.pendingDiff
+  await clearPendingProfile(item)
+  await updateProfileItem({ ...item, lastDiff, hash: hashContent(content) })
+}
+
+export async function discardProfileUpdate(id: string): Promise<void> {
+  const item = await getProfileItem(id)
+  if (!item) throw new Error('Profile not found')
+  const discardedHash = existsSync(profilePendingPath(id))
+    ? hashContent(await readFile(profilePendingPath(id), 'utf-8'))
+    : undefined
+  await clearPendingProfile(item)
+  await updateProfileItem({ ...item, discardedHash })
+}
+
+async function notifyProfileDiff(
+  item: IProfileItem,
+  diff: IProfileDiff,
+  pending: boolean
+): Promise<void> {
+  const { profileDiffNotify = true } = await getAppConfig()
+  if (!profileDiffNotify && !pending) return
+  new Notification({
+    title: t(pending ? 'profiles.diff.pendingTitle' : 'profiles.diff.updatedTitle', {
+      name: item.name
+    }),
+    body: t('profiles.diff.summary', {
+      added: diff.proxies.added.length,
+      removed: diff.proxies.removed.length,
+      renamed: diff.proxies.renamed.length + diff.groups.renamed.length,
+      rules: diff.rules.length
+    })
+  }).show()
+}
+
+// 记录定时更新失败的原因和连续失败次数，更新成功后由 createProfile 清除
+export async function markProfileUpdateFailed(
+  id: string,
+  e: unknown,
+  failures: number
+): Promise<void> {
+  const item = (await getProfileConfig()).items.find((i) => i.id === id)
+  if (!item) return
+  await updateProfileItem({
+    ...item,
+    updateError: e instanceof Error ? e.message : `${e}`,
+    updateFailures: failures,
+    updateFailedTime: new Date().getTime()
+  })
+  mainWindow?.webContents.send('profileConfigUpdated')
 }
 
 // attachment;filename=xxx.yaml; filename*=UTF-8''%xx%xx%xx
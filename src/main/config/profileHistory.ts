@@ -0,0 +1,88 @@
+import { profileHistoryDir, profileHistoryPath } from '../utils/dirs'
+import { getAppConfig } from './app'
+import { setProfileStr } from './profile'
+import { pauseProfileUpdater } from '../core/profileUpdater'
+import { mkdir, readFile, rm, writeFile } from 'fs/promises'
+import { existsSync } from 'fs'
+import path from 'path'
+import yaml from 'yaml'
+
+function historyIndexPath(id: string): string {
+  return path.join(profileHistoryDir(id), 'index.yaml')
+}
+
+export async function getProfileHistory(id: string): Promise<IProfileHistoryItem[]> {
+  if (!existsSync(historyIndexPath(id))) return []
+  const data = await readFile(historyIndexPath(id), 'utf-8')
+  const list = yaml.parse(data) || []
+  return Array.isArray(list) ? list : []
+}
+
+async function setProfileHistory(id: string, list: IProfileHistoryItem[]): Promise<void> {
+  await writeFile(historyIndexPath(id), yaml.stringify(list), 'utf-8')
+}
+
+// 保存被覆盖前的配置内容，超出上限时删除最旧的快照
+export async function addProfileHistory(
+  id: string,
+  content: string,
+  item?: IProfileItem
+): Promise<void> {
+  const { maxProfileHistory = 10 } = await getAppConfig()
+  if (maxProfileHistory <= 0) return
+  if (!existsSync(profileHistoryDir(id))) {
+    await mkdir(profileHistoryDir(id), { recursive: true })
+  }
+  const list = await getProfileHistory(id)
+  let version = Date.now().toString(16)
+  while (list.some((h) => h.version === version)) {
+    version = (parseInt(version, 16) + 1).toString(16)
+  }
+  await writeFile(profileHistoryPath(id, version), content, 'utf-8')
+  list.unshift({
+    version,
+    time: item?.updated || Date.now(),
+    size: Buffer.byteLength(content, 'utf-8'),
+    url: item?.url,
+    extra: item?.extra
+  })
+  for (const expired of list.splice(maxProfileHistory)) {
+    if (existsSync(profileHistoryPath(id, expired.version))) {
+      await rm(profileHistoryPath(id, expired.version))
+    }
+  }
+  await setProfileHistory(id, list)
+}
+
+// 版本号来自渲染进程, 只接受索引中记录的十六进制时间戳, 避免拼接出任意路径
+async function checkHistoryVersion(id: string, version: string): Promise<void> {
+  const list = await getProfileHistory(id)
+  if (!/^[0-9a-f]+$/.test(version) || !list.some((h) => h.version === version)) {
+    throw new Error('Profile history not found')
+  }
+}
+
+export async function getProfileHistoryStr(id: string, version: string): Promise<string> {
+  await checkHistoryVersion(id, version)
+  if (!existsSync(profileHistoryPath(id, version))) {
+    throw new Error('Profile history not found')
+  }
+  return await readFile(profileHistoryPath(id, version), 'utf-8')
+}
+
+// 恢复后可暂停自动更新, 否则下一次定时更新会覆盖恢复的版本
+export async function restoreProfileHistory(
+  id: string,
+  version: string,
+  pauseUpdate = false
+): Promise<void> {
+  const content = await getProfileHistoryStr(id, version)
+  await setProfileStr(id, content)
+  if (pauseUpdate) await pauseProfileUpdater(id)
+}
+
+export async function removeProfileHistory(id: string): Promise<void> {
+  if (existsSync(profileHistoryDir(id))) {
+    await rm(profileHistoryDir(id), { recursive: true })
+  }
+}
@@ -1,5 +1,8 @@
 import {
+  applyConfigPolicy,
+  configSections,
   getControledMihomoConfig,
+  getProfileMihomoConfig,
   getProfileConfig,
   getProfile,
   getProfileItem,
@@ -10,6 +13,7 @@ import {
 } from '../config'
 import {
   mihomoProfileWorkDir,
+  mihomoStagingConfigPath,
   mihomoWorkConfigPath,
   mihomoWorkDir,
   overridePath
@@ -17,56 +21,188 @@ import {
 import yaml from 'yaml'
 import { copyFile, mkdir, writeFile } from 'fs/promises'
 import { deepMerge } from '../utils/merge'
-import vm from 'vm'
+import { applyProxyFilter, isEmptyProxyFilter } from '../utils/proxyFilter'
+import { mergeProfiles } from '../utils/composite'
+import { createProvenanceTracker } from '../utils/provenance'
+import { renderOverrideTemplate, resolveOverrideArgs } from '../utils/overrideArgs'
+import createOverrideWorker from './overrideWorker?nodeWorker'
+import type { OverrideWorkerData, OverrideWorkerMessage } from './overrideWorker'
+import type { OverrideRequestMethod } from './overrideHelpers'
+import { mainWindow } from '..'
 import { existsSync, writeFileSync } from 'fs'
+import { app } from 'electron'
 import path from 'path'
 
 let runtimeConfigStr: string
 let runtimeConfig: IMihomoConfig
+let runtimeExplain: IConfigPolicyExplain[] = []
+let runtimeProvenance: IConfigProvenance = { layers: [], paths: {} }
+const overrideStatus: Record<string, IOverrideRunStatus> = {}
 
 export async function generateProfile(): Promise<void> {
   const { current } = await getProfileConfig()
-  const { diffWorkDir = false, controlDns = true, controlSniff = true, useNameserverPolicy } = await getAppConfig()
-  const currentProfile = await overrideProfile(current, await getProfile(current))
-  let controledMihomoConfig = await getControledMihomoConfig()
-
-  // 根据开关状态过滤控制配置
-  controledMihomoConfig = { ...controledMihomoConfig }
-  if (!controlDns) {
-    delete controledMihomoConfig.dns
-    delete controledMihomoConfig.hosts
+  const { diffWorkDir = false } = await getAppConfig()
+  const tracker = createProvenanceTracker()
+  const { profile, explain } = await buildProfile(current, await getProfile(current), tracker)
+  runtimeConfig = profile
+  runtimeExplain = explain
+  runtimeProvenance = tracker.result()
+  runtimeConfigStr = stringifyProfile(runtimeConfig)
+
+  if (diffWorkDir) {
+    await prepareProfileWorkDir(current)
   }
-  if (!controlSniff) {
-    delete controledMihomoConfig.sniffer
+  await writeFile(
+    diffWorkDir ? mihomoWorkConfigPath(current) : mihomoWorkConfigPath('work'),
+    runtimeConfigStr
+  )
+}
+
+// 使用暂存的订阅内容生成测试配置，不影响当前运行配置
+export async function generateStagingProfile(id: string, profile: IMihomoConfig): Promise<string> {
+  // 覆写脚本的日志和执行状态只反映正式生成的结果
+  const { profile: stagingProfile } = await buildProfile(id, profile, {
+    record: () => {},
+    dryRun: true
+  })
+  await writeFile(mihomoStagingConfigPath(id), stringifyProfile(stagingProfile))
+  return mihomoStagingConfigPath(id)
+}
+
+// 逐步执行生成流程并记录每一步的结果、耗时和脚本输出，不影响当前运行配置
+export async function generatePreviewProfile(
+  id: string | undefined
+): Promise<{ steps: IOverridePreviewStep[]; path?: string; error?: string }> {
+  const steps: IOverridePreviewStep[] = []
+  let logs: string[] = []
+  let start = Date.now()
+  const observer: ProfileObserver = {
+    record: (layer, profile) => {
+      steps.push({ layer, content: stringifyProfile(profile), duration: Date.now() - start, logs })
+      logs = []
+      start = Date.now()
+    },
+    log: (level, data) => logs.push(`[${level}] ${data}`),
+    dryRun: true
   }
-  if (!useNameserverPolicy) {
-    delete controledMihomoConfig?.dns?.['nameserver-policy']
+  try {
+    const { profile } = await buildProfile(id, await getProfile(id), observer)
+    const previewPath = mihomoStagingConfigPath(`${id ?? 'default'}.preview`)
+    await writeFile(previewPath, stringifyProfile(profile))
+    return { steps, path: previewPath }
+  } catch (e) {
+    return { steps, error: `${e}` }
   }
+}
+
+// 记录生成过程中每一步的结果
+interface ProfileObserver {
+  record: (layer: IConfigLayer, profile: IMihomoConfig) => void
+  log?: (level: string, data: string) => void
+  // 预览时日志只交给 log 收集，不写入日志文件和执行状态
+  dryRun?: boolean
+}
+
+async function buildProfile(
+  id: string | undefined,
+  profile: IMihomoConfig,
+  observer?: ProfileObserver
+): Promise<{ profile: IMihomoConfig; explain: IConfigPolicyExplain[] }> {
+  const { configPolicy = {} } = await getAppConfig()
+  const currentProfile = await overrideProfile(id, profile, true, observer)
+  const controledMihomoConfig = structuredClone(await getControledMihomoConfig())
 
-  const profile = deepMerge(currentProfile, controledMihomoConfig)
+  applyConfigPolicy(currentProfile, controledMihomoConfig, configPolicy)
+
+  // 订阅级的内核设置优先于全局设置
+  const profileMihomoConfig = await getProfileMihomoConfig(id)
+  const merged = deepMerge(currentProfile, controledMihomoConfig)
+  observer?.record({ type: 'app' }, merged)
+  const result = deepMerge(merged, profileMihomoConfig)
+  if (Object.keys(profileMihomoConfig).length > 0) {
+    observer?.record({ type: 'profileSettings' }, result)
+  }
+  const explain = explainConfigPolicy(
+    result,
+    controledMihomoConfig,
+    profileMihomoConfig,
+    configPolicy
+  )
   // 确保可以拿到基础日志信息
   // 使用 debug 可以调试内核相关问题 `debug/pprof`
-  if (['info', 'debug'].includes(profile['log-level']) === false) {
-    profile['log-level'] = 'info'
+  if (['info', 'debug'].includes(result['log-level']) === false) {
+    result['log-level'] = 'info'
   }
-  runtimeConfig = profile
-  
-  // 先正常生成 YAML 字符串
-  let yamlStr = yaml.stringify(profile)
-  // 还原科学记数法的引号
-  yamlStr = yamlStr.replace(
-    /(\w+:\s*)"(\d+E\d+)"(\s|$)/gi,
-    '$1$2$3'
-  )
-  runtimeConfigStr = yamlStr
-  
-  if (diffWorkDir) {
-    await prepareProfileWorkDir(current)
+  // GEO 数据由应用的任务调度更新
+  result['geo-auto-update'] = false
+  observer?.record({ type: 'enforced' }, result)
+  return { profile: result, explain }
+}
+
+// 记录各分区中每个生效值的来源
+function explainConfigPolicy(
+  result: IMihomoConfig,
+  controled: Partial<IMihomoConfig>,
+  profileMihomoConfig: Partial<IMihomoConfig>,
+  configPolicy: Partial<Record<ConfigSection, ConfigPolicy>>
+): IConfigPolicyExplain[] {
+  return Object.entries(configSections).map(([section, keys]) => {
+    const values: IConfigPolicyValue[] = []
+    for (const key of keys) {
+      for (const [path, value] of flattenConfig(result[key], [key])) {
+        const source: ConfigSource = hasPath(profileMihomoConfig, path)
+          ? 'profileSettings'
+          : hasPath(controled, path)
+            ? 'app'
+            : 'profile'
+        values.push({ path: path.join('.'), value, source })
+      }
+    }
+    return { section: section as ConfigSection, policy: configPolicy[section] ?? 'merge', values }
+  })
+}
+
+// 展开为路径和值，数组视为单个值，hosts 等字段的键名可能包含点号
+function flattenConfig(value: unknown, path: string[]): [string[], unknown][] {
+  if (value === undefined) return []
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return [[path, value]]
+  const entries = Object.entries(value)
+  if (entries.length === 0) return [[path, value]]
+  return entries.flatMap(([key, child]) => flattenConfig(child, [...path, key]))
+}
+
+function hasPath(config: object, path: string[]): boolean {
+  let current: unknown = config
+  for (const key of path) {
+    if (!current || typeof current !== 'object' || !(key in current)) return false
+    current = current[key]
   }
-  await writeFile(
-    diffWorkDir ? mihomoWorkConfigPath(current) : mihomoWorkConfigPath('work'),
-    runtimeConfigStr
+  return current !== undefined
+}
+
+// 合并多个订阅的节点，代理组和规则等其余配置取自主订阅
+export async function generateCompositeProfile(item: IProfileItem): Promise<IMihomoConfig> {
+  const { items } = await getProfileConfig()
+  const sources = (item.sources ?? []).filter((id) =>
+    items.some((i) => i.id === id && i.type !== 'composite')
   )
+  const primary = item.primary && sources.includes(item.primary) ? item.primary : sources[0]
+  if (!primary) throw new Error('No source profiles')
+
+  const profiles: { name: string; profile: IMihomoConfig }[] = []
+  for (const id of [primary, ...sources.filter((s) => s !== primary)]) {
+    // 只应用来源订阅自身的覆写，全局覆写在合并后统一应用
+    const profile = await overrideProfile(id, await getProfile(id), false)
+    profiles.push({ name: items.find((i) => i.id === id)?.name || id, profile })
+  }
+  return mergeProfiles(profiles)
+}
+
+export function stringifyProfile(profile: IMihomoConfig): string {
+  // 先正常生成 YAML 字符串
+  const yamlStr = yaml.stringify(profile)
+  // 还原科学记数法的引号
+  return yamlStr.replace(/(\w+:\s*)"(\d+E\d+)"(\s|$)/gi, '$1$2$3')
 }
 
 async function prepareProfileWorkDir(current: string | undefined): Promise<void> {
@@ -91,72 +227,174 @@ async function prepareProfileWorkDir(current: string | undefined): Promise<void>
 
 async function overrideProfile(
   current: string | undefined,
-  profile: IMihomoConfig
+  profile: IMihomoConfig,
+  global = true,
+  observer?: ProfileObserver
 ): Promise<IMihomoConfig> {
   const { items = [] } = (await getOverrideConfig()) || {}
-  const globalOverride = items.filter((item) => item.global).map((item) => item.id)
-  const { override = [] } = (await getProfileItem(current)) || {}
-  for (const ov of new Set(globalOverride.concat(override))) {
+  const {
+    name,
+    override = [],
+    overrideArgs = {},
+    overrideOrder = [],
+    skipGlobalOverride = [],
+    proxyFilter
+  } = (await getProfileItem(current)) || {}
+  const globalOverride = global
+    ? items
+        .filter((item) => item.global && !skipGlobalOverride.includes(item.id))
+        .map((item) => item.id)
+    : []
+  // 按订阅设置的顺序执行，未排序的覆写按默认顺序追加在后面
+  const overrides = Array.from(new Set(globalOverride.concat(override)))
+  const ordered = [
+    ...overrideOrder.filter((id) => overrides.includes(id)),
+    ...overrides.filter((id) => !overrideOrder.includes(id))
+  ]
+  observer?.record({ type: 'profile', id: current, name }, profile)
+  // 节点过滤和重命名先于覆写执行
+  profile = applyProxyFilter(profile, proxyFilter)
+  if (!isEmptyProxyFilter(proxyFilter)) {
+    observer?.record({ type: 'filter' }, profile)
+  }
+  for (const ov of ordered) {
     const item = await getOverrideItem(ov)
+    if (item?.enabled === false) continue
     const content = await getOverride(ov, item?.ext || 'js')
+    const args = resolveOverrideArgs(item, overrideArgs[ov])
     switch (item?.ext) {
       case 'js':
-        profile = runOverrideScript(profile, content, item)
+        profile = await runOverrideScript(profile, content, item, args, observer)
         break
       case 'yaml': {
-        let patch = yaml.parse(content, { merge: true }) || {}
+        let patch = yaml.parse(renderOverrideTemplate(content, args), { merge: true }) || {}
         if (typeof patch !== 'object') patch = {}
         profile = deepMerge(profile, patch)
         break
       }
     }
+    observer?.record({ type: 'override', id: ov, name: item?.name }, profile)
   }
   return profile
 }
 
-function runOverrideScript(
+async function runOverrideScript(
   profile: IMihomoConfig,
   script: string,
-  item: IOverrideItem
-): IMihomoConfig {
+  item: IOverrideItem,
+  args: Record<string, OverrideArgValue>,
+  observer?: ProfileObserver
+): Promise<IMihomoConfig> {
+  const {
+    core = 'mihomo',
+    overrideScriptTimeout = 10000,
+    overrideScriptMemoryLimit = 256
+  } = await getAppConfig()
+  const dryRun = observer?.dryRun ?? false
   const log = (type: string, data: string, flag = 'a'): void => {
-    writeFileSync(overridePath(item.id, 'log'), `[${type}] ${data}\n`, {
-      encoding: 'utf-8',
-      flag
-    })
+    if (!dryRun) {
+      writeFileSync(overridePath(item.id, 'log'), `[${type}] ${data}\n`, {
+        encoding: 'utf-8',
+        flag
+      })
+    }
+    observer?.log?.(type, data)
   }
+  const setStatus = (status: IOverrideRunStatus): void => {
+    if (dryRun) return
+    overrideStatus[item.id] = status
+    mainWindow?.webContents.send('overrideStatusUpdated')
+  }
+  const start = Date.now()
+  let timedOut = false
+  log('info', '开始执行脚本', 'w')
   try {
-    const ctx = {
-      console: Object.freeze({
-        log(data: never) {
-          log('log', JSON.stringify(data))
-        },
-        info(data: never) {
-          log('info', JSON.stringify(data))
-        },
-        error(data: never) {
-          log('error', JSON.stringify(data))
-        },
-        debug(data: never) {
-          log('debug', JSON.stringify(data))
+    const newProfile = await new Promise<IMihomoConfig>((resolve, reject) => {
+      // 在独立线程中执行，避免死循环或内存占用过高拖垮主进程
+      const worker = createOverrideWorker({
+        workerData: {
+          script,
+          profile,
+          args,
+          env: { appVersion: app.getVersion(), core },
+          timeout: overrideScriptTimeout
+        } as OverrideWorkerData,
+        resourceLimits: { maxOldGenerationSizeMb: overrideScriptMemoryLimit }
+      })
+      const timer = setTimeout(() => {
+        timedOut = true
+        reject(new Error(`脚本执行超时（${overrideScriptTimeout}ms）`))
+        worker.terminate()
+      }, overrideScriptTimeout)
+      worker.on('message', (message: OverrideWorkerMessage) => {
+        switch (message.type) {
+          case 'log':
+            log(message.level, message.data)
+            break
+          case 'result':
+            resolve(message.profile)
+            worker.terminate()
+            break
+          case 'error':
+            reject(new Error(message.message))
+            worker.terminate()
+            break
+          case 'request':
+            handleOverrideRequest(message.method, message.args)
+              .then((result) => worker.postMessage({ type: 'response', id: message.id, result }))
+              .catch((e) => worker.postMessage({ type: 'response', id: message.id, error: `${e}` }))
+            break
         }
       })
-    }
-    vm.createContext(ctx)
-    const code = `${script} main(${JSON.stringify(profile)})`
-    log('info', '开始执行脚本', 'w')
-    const newProfile = vm.runInContext(code, ctx)
-    if (typeof newProfile !== 'object') {
-      throw new Error('脚本返回值必须是对象')
-    }
+      worker.on('error', (e: Error & { code?: string }) => {
+        if (e.code === 'ERR_WORKER_OUT_OF_MEMORY') {
+          reject(new Error(`脚本内存占用超出限制（${overrideScriptMemoryLimit}MB）`))
+        } else {
+          reject(e)
+        }
+      })
+      worker.on('exit', (code) => {
+        clearTimeout(timer)
+        reject(new Error(`脚本线程意外退出：${code}`))
+      })
+    })
     log('info', '脚本执行成功')
+    setStatus({ status: 'success', time: start, duration: Date.now() - start })
     return newProfile
   } catch (e) {
-    log('exception', `脚本执行失败：${e}`)
+    // 同步代码超时由 vm 在线程内抛出
+    const timeout = timedOut || `${e}`.includes('Script execution timed out')
+    log(timeout ? 'timeout' : 'exception', `脚本执行失败：${e}`)
+    setStatus({
+      status: timeout ? 'timeout' : 'error',
+      message: e instanceof Error ? e.message : String(e),
+      time: start,
+      duration: Date.now() - start
+    })
+    // 执行失败时跳过该覆写，保证内核仍可启动
     return profile
   }
 }
 
+// 覆写脚本只能读取订阅数据
+async function handleOverrideRequest(
+  method: OverrideRequestMethod,
+  args: string[]
+): Promise<unknown> {
+  switch (method) {
+    case 'listProfiles': {
+      const { items = [] } = await getProfileConfig()
+      return items.map(({ id, name, type }): OverrideProfileInfo => ({ id, name, type }))
+    }
+    case 'getProfile':
+      return (await getProfileItem(args[0])) ? await getProfile(args[0]) : undefined
+    case 'getProxyProviders': {
+      if (!(await getProfileItem(args[0]))) return {}
+      return (await getProfile(args[0]))['proxy-providers'] ?? {}
+    }
+  }
+}
+
 export async function getRuntimeConfigStr(): Promise<string> {
   return runtimeConfigStr
 }
@@ -164,3 +402,15 @@ export async function getRuntimeConfigStr(): Promise<string> {
 export async function getRuntimeConfig(): Promise<IMihomoConfig> {
   return runtimeConfig
 }
+
+export async function getConfigPolicyExplain(): Promise<IConfigPolicyExplain[]> {
+  return runtimeExplain
+}
+
+export async function getRuntimeProvenance(): Promise<IConfigProvenance> {
+  return runtimeProvenance
+}
+
+export async function getOverrideStatus(): Promise<Record<string, IOverrideRunStatus>> {
+  return overrideStatus
+}
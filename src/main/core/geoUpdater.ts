@@ -0,0 +1,21 @@
+import { getControledMihomoConfig } from '../config'
+import { mihomoUpgradeGeo } from './mihomoApi'
+import { registerJob, unregisterJob } from './jobs'
+
+// GEO 数据由应用调度更新, 运行时配置中关闭内核自带的自动更新
+export async function initGeoUpdater(): Promise<void> {
+  const {
+    'geo-auto-update': geoAutoUpdate = false,
+    'geo-update-interval': geoUpdateInterval = 24
+  } = await getControledMihomoConfig()
+  if (!geoAutoUpdate || !(geoUpdateInterval > 0)) {
+    unregisterJob('geo')
+    return
+  }
+  await registerJob({
+    id: 'geo',
+    type: 'geo',
+    interval: geoUpdateInterval * 60,
+    run: mihomoUpgradeGeo
+  })
+}
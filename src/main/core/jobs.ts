@@ -0,0 +1,225 @@
+import { jobStatePath } from '../utils/dirs'
+import { mainWindow } from '..'
+import { powerMonitor } from 'electron'
+import { existsSync } from 'fs'
+import { readFile, writeFile } from 'fs/promises'
+import { Cron } from 'croner'
+import yaml from 'yaml'
+
+const MAX_HISTORY = 20
+// setTimeout 的最大延迟
+const MAX_DELAY = 2147483647
+
+interface JobOptions {
+  id: string
+  type: JobType
+  name?: string
+  cron?: string
+  interval?: number // 分钟
+  run: () => Promise<void>
+}
+
+interface Job extends JobOptions {
+  timer?: NodeJS.Timeout
+  nextRun?: number
+  paused: boolean
+  running: boolean
+}
+
+interface JobState {
+  paused?: boolean
+  history?: IJobRun[]
+}
+
+const jobPool: Record<string, Job> = {}
+let jobState: Record<string, JobState> | undefined
+
+export function initJobScheduler(): void {
+  // 休眠期间错过的任务在唤醒后补跑
+  powerMonitor.on('resume', () => {
+    for (const job of Object.values(jobPool)) {
+      if (job.paused || job.running || !job.nextRun) continue
+      if (job.nextRun <= Date.now()) {
+        executeJob(job)
+      }
+    }
+  })
+}
+
+export async function registerJob(options: JobOptions): Promise<void> {
+  const prev = jobPool[options.id]
+  if (prev) clearJobTimer(prev)
+  const state = await getJobState()
+  const job: Job = {
+    ...options,
+    paused: state[options.id]?.paused ?? false,
+    running: prev?.running ?? false
+  }
+  jobPool[job.id] = job
+  // 按上次运行时间计算, 重启前已到期的任务会立即运行; 正在运行时从当前时间计算
+  const lastRun = job.running ? undefined : state[job.id]?.history?.[0]?.time
+  if (!job.paused) scheduleJob(job, lastRun)
+  mainWindow?.webContents.send('jobsUpdated')
+}
+
+export function unregisterJob(id: string): void {
+  const job = jobPool[id]
+  if (!job) return
+  clearJobTimer(job)
+  delete jobPool[id]
+  mainWindow?.webContents.send('jobsUpdated')
+}
+
+export function unregisterJobs(type: JobType): void {
+  for (const job of Object.values(jobPool)) {
+    if (job.type === type) unregisterJob(job.id)
+  }
+}
+
+// 移除任务及其运行记录
+export async function removeJob(id: string): Promise<void> {
+  unregisterJob(id)
+  const state = await getJobState()
+  if (state[id]) {
+    delete state[id]
+    await saveJobState()
+  }
+}
+
+export async function getJobs(): Promise<IJobInfo[]> {
+  const state = await getJobState()
+  return Object.values(jobPool).map((job) => ({
+    id: job.id,
+    type: job.type,
+    name: job.name,
+    cron: job.cron,
+    interval: job.interval,
+    paused: job.paused,
+    running: job.running,
+    nextRun: job.paused ? undefined : job.nextRun,
+    lastRun: state[job.id]?.history?.[0]
+  }))
+}
+
+export function isJobPaused(id: string): boolean {
+  return jobPool[id]?.paused ?? false
+}
+
+export async function getJobHistory(id: string): Promise<IJobRun[]> {
+  const state = await getJobState()
+  return state[id]?.history ?? []
+}
+
+export async function runJob(id: string): Promise<IJobRun> {
+  const job = jobPool[id]
+  if (!job) throw new Error('Job not found')
+  if (job.running) throw new Error('Job is running')
+  return await executeJob(job)
+}
+
+export async function pauseJob(id: string): Promise<void> {
+  const job = jobPool[id]
+  if (!job) throw new Error('Job not found')
+  job.paused = true
+  clearJobTimer(job)
+  await setJobState(id, { paused: true })
+  mainWindow?.webContents.send('jobsUpdated')
+}
+
+export async function resumeJob(id: string): Promise<void> {
+  const job = jobPool[id]
+  if (!job) throw new Error('Job not found')
+  job.paused = false
+  scheduleJob(job, (await getJobHistory(id))[0]?.time)
+  await setJobState(id, { paused: false })
+  mainWindow?.webContents.send('jobsUpdated')
+}
+
+async function executeJob(job: Job): Promise<IJobRun> {
+  clearJobTimer(job)
+  job.running = true
+  mainWindow?.webContents.send('jobsUpdated')
+  const record: IJobRun = { time: Date.now(), duration: 0, success: true }
+  try {
+    await job.run()
+  } catch (e) {
+    record.success = false
+    record.error = e instanceof Error ? e.message : `${e}`
+  }
+  record.duration = Date.now() - record.time
+  job.running = false
+  // 运行期间任务可能被重新注册
+  const current = jobPool[job.id]
+  if (current) current.running = false
+  if (current === job && !job.paused) scheduleJob(job)
+  const history = (await getJobHistory(job.id)).slice(0, MAX_HISTORY - 1)
+  await setJobState(job.id, { history: [record, ...history] })
+  mainWindow?.webContents.send('jobsUpdated')
+  return record
+}
+
+function scheduleJob(job: Job, lastRun?: number): void {
+  clearJobTimer(job)
+  job.nextRun = getNextRun(job, lastRun)
+  if (job.nextRun) armJobTimer(job)
+}
+
+function armJobTimer(job: Job): void {
+  if (!job.nextRun) return
+  const delay = Math.min(Math.max(job.nextRun - Date.now(), 0), MAX_DELAY)
+  job.timer = setTimeout(() => {
+    job.timer = undefined
+    if (job.nextRun && job.nextRun > Date.now()) {
+      armJobTimer(job)
+    } else {
+      executeJob(job)
+    }
+  }, delay)
+}
+
+function clearJobTimer(job: Job): void {
+  if (job.timer) {
+    clearTimeout(job.timer)
+    job.timer = undefined
+  }
+}
+
+function getNextRun(job: Job, lastRun = Date.now()): number | undefined {
+  if (job.cron) {
+    try {
+      const cron = new Cron(job.cron, { paused: true })
+      const next = cron.nextRun(new Date(lastRun))
+      cron.stop()
+      return next?.getTime()
+    } catch {
+      // 无效的 cron 表达式
+      return undefined
+    }
+  }
+  if (job.interval && job.interval > 0) {
+    return lastRun + job.interval * 60 * 1000
+  }
+  return undefined
+}
+
+async function getJobState(): Promise<Record<string, JobState>> {
+  if (!jobState) {
+    if (existsSync(jobStatePath())) {
+      const data = yaml.parse(await readFile(jobStatePath(), 'utf-8'))
+      jobState = data && typeof data === 'object' ? data : {}
+    } else {
+      jobState = {}
+    }
+  }
+  return jobState as Record<string, JobState>
+}
+
+async function setJobState(id: string, patch: JobState): Promise<void> {
+  const state = await getJobState()
+  state[id] = { ...state[id], ...patch }
+  await saveJobState()
+}
+
+async function saveJobState(): Promise<void> {
+  await writeFile(jobStatePath(), yaml.stringify(jobState ?? {}), 'utf-8')
+}
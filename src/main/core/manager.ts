@@ -9,14 +9,15 @@ import {
   mihomoWorkConfigPath,
   mihomoWorkDir
 } from '../utils/dirs'
-import { generateProfile } from './factory'
+import { generatePreviewProfile, generateProfile, generateStagingProfile } from './factory'
 import {
   getAppConfig,
   getControledMihomoConfig,
   getProfileConfig,
   patchAppConfig,
   patchControledMihomoConfig,
-  manageSmartOverride
+  manageSmartOverride,
+  parseProfileStr
 } from '../config'
 import { app, ipcMain, net } from 'electron'
 import {
@@ -234,25 +235,55 @@ export async function quitWithoutCore(): Promise<void> {
 }
 
 async function checkProfile(): Promise<void> {
-  const {
-    core = 'mihomo',
-    diffWorkDir = false,
-    skipSafePathCheck = false
-  } = await getAppConfig()
+  const { diffWorkDir = false } = await getAppConfig()
   const { current } = await getProfileConfig()
+  await testProfile(diffWorkDir ? mihomoWorkConfigPath(current) : mihomoWorkConfigPath('work'))
+}
+
+// 在替换订阅文件之前，先用暂存文件检查新内容能否被内核正常加载
+export async function checkProfileStr(id: string, content: string): Promise<void> {
+  let profile: unknown
+  try {
+    profile = parseProfileStr(content)
+  } catch (e) {
+    throw new Error(`${i18next.t('profiles.error.invalidProfile')}: ${e}`)
+  }
+  if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+    throw new Error(i18next.t('profiles.error.invalidProfile'))
+  }
+  const stagingPath = await generateStagingProfile(id, profile as IMihomoConfig)
+  try {
+    await testProfile(stagingPath)
+  } finally {
+    await rm(stagingPath, { force: true })
+  }
+}
+
+// 预览覆写流程的每一步，最后用内核检查生成的配置
+export async function previewOverridePipeline(id?: string): Promise<IOverridePreview> {
+  const { steps, path, error } = await generatePreviewProfile(
+    id ?? (await getProfileConfig()).current
+  )
+  if (!path) return { steps, valid: false, message: error }
+  try {
+    await testProfile(path)
+    return { steps, valid: true }
+  } catch (e) {
+    return { steps, valid: false, message: e instanceof Error ? e.message : String(e) }
+  } finally {
+    await rm(path, { force: true })
+  }
+}
+
+async function testProfile(configPath: string): Promise<void> {
+  const { core = 'mihomo', skipSafePathCheck = false } = await getAppConfig()
   const corePath = mihomoCorePath(core)
   const execFilePromise = promisify(execFile)
   const env = {
     SKIP_SAFE_PATH_CHECK: String(skipSafePathCheck)
   }
   try {
-    await execFilePromise(corePath, [
-      '-t',
-      '-f',
-      diffWorkDir ? mihomoWorkConfigPath(current) : mihomoWorkConfigPath('work'),
-      '-d',
-      mihomoTestDir()
-    ], { env })
+    await execFilePromise(corePath, ['-t', '-f', configPath, '-d', mihomoTestDir()], { env })
   } catch (error) {
     await managerLogger.error('Profile check failed', error)
 
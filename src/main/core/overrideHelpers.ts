@@ -0,0 +1,82 @@
+import yaml from 'yaml'
+
+// 新增辅助函数时递增，已有函数的行为保持不变
+export const overrideHelpersVersion = 1
+
+export type OverrideRequestMethod = 'listProfiles' | 'getProfile' | 'getProxyProviders'
+
+export interface OverrideEnv {
+  appVersion: string
+  core: OverrideHelpers['core']
+}
+
+// 脚本传入的正则可能来自沙箱，不能使用 instanceof 判断
+function toRegExp(pattern: string | RegExp): RegExp {
+  if (typeof pattern !== 'string') return new RegExp(pattern.source, pattern.flags.replace('g', ''))
+  if (pattern.startsWith('(?i)')) return new RegExp(pattern.slice(4), 'i')
+  return new RegExp(pattern)
+}
+
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.freeze(value)
+    for (const child of Object.values(value)) deepFreeze(child)
+  }
+  return value
+}
+
+export function createOverrideHelpers(
+  env: OverrideEnv,
+  request: (method: OverrideRequestMethod, args: string[]) => Promise<unknown>
+): OverrideHelpers {
+  const groups = (config: OverrideConfig): OverrideProxyGroup[] =>
+    Array.isArray(config?.['proxy-groups']) ? config['proxy-groups'] : []
+
+  return Object.freeze({
+    version: overrideHelpersVersion,
+    appVersion: env.appVersion,
+    core: env.core,
+    yaml: Object.freeze({
+      parse: (text: string) => yaml.parse(text, { merge: true }),
+      stringify: (value: unknown) => yaml.stringify(value)
+    }),
+    findGroup(config: OverrideConfig, name: string) {
+      return groups(config).find((group) => group?.name === name)
+    },
+    findGroups(config: OverrideConfig, pattern: string | RegExp) {
+      const regex = toRegExp(pattern)
+      return groups(config).filter((group) => regex.test(group?.name ?? ''))
+    },
+    filterProxies(config: OverrideConfig, pattern: string | RegExp) {
+      const regex = toRegExp(pattern)
+      const proxies = Array.isArray(config?.proxies) ? config.proxies : []
+      return proxies.filter((proxy) => regex.test(proxy?.name ?? ''))
+    },
+    addProxiesToGroup(config: OverrideConfig, name: string, names: string[]) {
+      const group = groups(config).find((group) => group?.name === name)
+      if (!group) return false
+      const members = Array.isArray(group.proxies) ? group.proxies : []
+      group.proxies = [...members, ...names.filter((n) => !members.includes(n))]
+      return true
+    },
+    insertRules(config: OverrideConfig, rules: string[]) {
+      const current = Array.isArray(config.rules) ? config.rules : []
+      const index = current.findIndex((rule) => /^\s*MATCH\s*,/i.test(rule))
+      config.rules =
+        index === -1
+          ? [...current, ...rules]
+          : [...current.slice(0, index), ...rules, ...current.slice(index)]
+    },
+    async listProfiles() {
+      return deepFreeze((await request('listProfiles', [])) as OverrideProfileInfo[])
+    },
+    async getProfile(id: string) {
+      return deepFreeze((await request('getProfile', [id])) as OverrideConfig | undefined)
+    },
+    async getProxyProviders(id: string) {
+      return deepFreeze(
+        (await request('getProxyProviders', [id])) as Record<string, Record<string, unknown>>
+      )
+    }
+  })
+}
@@ -0,0 +1,77 @@
+import { parentPort, workerData } from 'worker_threads'
+import vm from 'vm'
+import { createOverrideHelpers, OverrideEnv, OverrideRequestMethod } from './overrideHelpers'
+
+export interface OverrideWorkerData {
+  script: string
+  profile: IMihomoConfig
+  args: Record<string, OverrideArgValue>
+  env: OverrideEnv
+  timeout: number
+}
+
+export type OverrideWorkerMessage =
+  | { type: 'log'; level: string; data: string }
+  | { type: 'result'; profile: IMihomoConfig }
+  | { type: 'error'; message: string }
+  | { type: 'request'; id: number; method: OverrideRequestMethod; args: string[] }
+
+// 主进程对数据请求的响应
+export type OverrideWorkerResponse =
+  | { type: 'response'; id: number; result: unknown }
+  | { type: 'response'; id: number; error: string }
+
+const { script, profile, args, env, timeout } = workerData as OverrideWorkerData
+
+const post = (message: OverrideWorkerMessage): void => parentPort?.postMessage(message)
+
+// 读取订阅等数据需要由主进程完成
+const pending = new Map<number, { resolve: (v: unknown) => void; reject: (e: Error) => void }>()
+let requestId = 0
+parentPort?.on('message', (response: OverrideWorkerResponse) => {
+  const request = pending.get(response.id)
+  if (!request) return
+  pending.delete(response.id)
+  if ('error' in response) request.reject(new Error(response.error))
+  else request.resolve(response.result)
+})
+const request = (method: OverrideRequestMethod, args: string[]): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const id = ++requestId
+    pending.set(id, { resolve, reject })
+    post({ type: 'request', id, method, args })
+  })
+
+const format = (args: unknown[]): string =>
+  args.map((arg) => (typeof arg === 'string' ? arg : JSON.stringify(arg))).join(' ')
+
+const ctx = {
+  // 订阅为该覆写提供的参数
+  $arguments: Object.freeze({ ...args }),
+  $party: createOverrideHelpers(env, request),
+  console: Object.freeze({
+    log: (...args: unknown[]) => post({ type: 'log', level: 'log', data: format(args) }),
+    info: (...args: unknown[]) => post({ type: 'log', level: 'info', data: format(args) }),
+    warn: (...args: unknown[]) => post({ type: 'log', level: 'warn', data: format(args) }),
+    error: (...args: unknown[]) => post({ type: 'log', level: 'error', data: format(args) }),
+    debug: (...args: unknown[]) => post({ type: 'log', level: 'debug', data: format(args) })
+  })
+}
+
+async function run(): Promise<void> {
+  try {
+    vm.createContext(ctx)
+    // 同步代码的死循环由 vm 中断，异步部分由主进程终止线程
+    const result = await vm.runInContext(`${script}\n;main(${JSON.stringify(profile)})`, ctx, {
+      timeout
+    })
+    if (!result || typeof result !== 'object' || Array.isArray(result)) {
+      throw new Error('脚本返回值必须是对象')
+    }
+    post({ type: 'result', profile: JSON.parse(JSON.stringify(result)) })
+  } catch (e) {
+    post({ type: 'error', message: String(e) })
+  }
+}
+
+run()
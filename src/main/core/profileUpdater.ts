@@ -1,115 +1,116 @@
-import { addProfileItem, getCurrentProfileItem, getProfileConfig } from '../config'
-import { Cron } from 'croner'
+import {
+  addProfileItem,
+  getCurrentProfileItem,
+  getProfileConfig,
+  getProfileItem,
+  markProfileUpdateFailed
+} from '../config'
+import { isJobPaused, pauseJob, registerJob, removeJob, runJob, unregisterJob } from './jobs'
 
-const intervalPool: Record<string, Cron | NodeJS.Timeout> = {}
+const MAX_RETRIES = 5
+const RETRY_BASE_DELAY = 60 * 1000
+const RETRY_MAX_DELAY = 60 * 60 * 1000
+
+const retryPool: Record<string, NodeJS.Timeout> = {}
+const retryAttempts: Record<string, number> = {}
+
+function profileJobId(id: string): string {
+  return `profile-${id}`
+}
 
 export async function initProfileUpdater(): Promise<void> {
   const { items, current } = await getProfileConfig()
   const currentItem = await getCurrentProfileItem()
-  
-  for (const item of items.filter((i) => i.id !== current)) {
-    if (item.type === 'remote' && item.interval) {
-      if (typeof item.interval === 'number') {
-        // 数字间隔使用setInterval
-        intervalPool[item.id] = setInterval(
-          async () => {
-            try {
-              await addProfileItem(item)
-            } catch (e) {
-              /* ignore */
-            }
-          },
-          item.interval * 60 * 1000
-        )
-      } else if (typeof item.interval === 'string') {
-        // 字符串间隔使用Cron
-        intervalPool[item.id] = new Cron(item.interval, async () => {
-          try {
-            await addProfileItem(item)
-          } catch (e) {
-            /* ignore */
-          }
-        })
-      }
-      
+
+  // 最后更新当前订阅, 避免其他订阅更新期间重复重启内核
+  for (const item of [...items.filter((i) => i.id !== current), currentItem]) {
+    if (item?.type === 'remote' && item.interval) {
+      await addProfileUpdater(item)
+      if (isJobPaused(profileJobId(item.id))) continue
       try {
-        await addProfileItem(item)
-      } catch (e) {
-        /* ignore */
+        await runJob(profileJobId(item.id))
+      } catch {
+        // 任务正在运行
       }
     }
   }
+}
 
-  if (currentItem?.type === 'remote' && currentItem.interval) {
-    if (typeof currentItem.interval === 'number') {
-      intervalPool[currentItem.id] = setInterval(
-        async () => {
-          try {
-            await addProfileItem(currentItem)
-          } catch (e) {
-            /* ignore */
-          }
-        },
-        currentItem.interval * 60 * 1000
-      )
-      
-      setTimeout(
-        async () => {
-          try {
-            await addProfileItem(currentItem)
-          } catch (e) {
-            /* ignore */
-          }
-        },
-        currentItem.interval * 60 * 1000 + 10000 // +10s
-      )
-    } else if (typeof currentItem.interval === 'string') {
-      intervalPool[currentItem.id] = new Cron(currentItem.interval, async () => {
-        try {
-          await addProfileItem(currentItem)
-        } catch (e) {
-          /* ignore */
-        }
-      })
-    }
-
-    try {
-      await addProfileItem(currentItem)
-    } catch (e) {
-      /* ignore */
-    }
+export async function addProfileUpdater(item: IProfileItem): Promise<void> {
+  if (item.type !== 'remote' || !item.interval) {
+    unregisterJob(profileJobId(item.id))
+    return
   }
+  await registerJob({
+    id: profileJobId(item.id),
+    type: 'profile',
+    name: item.name,
+    // 数字为间隔分钟数, 字符串为 cron 表达式
+    ...(typeof item.interval === 'number' ? { interval: item.interval } : { cron: item.interval }),
+    run: () => updateProfile(item.id)
+  })
 }
 
-export async function addProfileUpdater(item: IProfileItem): Promise<void> {
-  if (item.type === 'remote' && item.interval) {
-    if (intervalPool[item.id]) {
-      if (intervalPool[item.id] instanceof Cron) {
-        (intervalPool[item.id] as Cron).stop()
-      } else {
-        clearInterval(intervalPool[item.id] as NodeJS.Timeout)
-      }
+export async function removeProfileUpdater(id: string): Promise<void> {
+  resetProfileRetry(id)
+  await removeJob(profileJobId(id))
+}
+
+export async function pauseProfileUpdater(id: string): Promise<void> {
+  resetProfileRetry(id)
+  await pauseJob(profileJobId(id))
+}
+
+// 订阅更新成功后 (包括手动更新) 取消等待中的重试并重新计数
+export function resetProfileRetry(id: string): void {
+  clearRetry(id)
+  delete retryAttempts[id]
+}
+
+async function updateProfile(id: string): Promise<void> {
+  clearRetry(id)
+  // 读取最新的订阅信息, 避免使用注册时的旧数据
+  const latest = await getProfileItem(id)
+  if (!latest) return
+  const startTime = Date.now()
+  try {
+    await addProfileItem(latest)
+  } catch (e) {
+    // 内容未通过校验时已记录拒绝原因, 重试得到的仍是相同内容
+    const rejected = ((await getProfileItem(id))?.rejectTime ?? 0) >= startTime
+    if (!rejected) {
+      await markProfileUpdateFailed(id, e, (latest.updateFailures ?? 0) + 1)
+      scheduleRetry(id)
     }
+    throw e
+  }
+}
 
-    if (typeof item.interval === 'number') {
-      intervalPool[item.id] = setInterval(
-        async () => {
-          try {
-            await addProfileItem(item)
-          } catch (e) {
-            /* ignore */
-          }
-        },
-        item.interval * 60 * 1000
-      )
-    } else if (typeof item.interval === 'string') {
-      intervalPool[item.id] = new Cron(item.interval, async () => {
-        try {
-          await addProfileItem(item)
-        } catch (e) {
-          /* ignore */
-        }
+// 失败后按指数退避重试, 加入随机抖动避免多个订阅同时重试
+function scheduleRetry(id: string): void {
+  const attempt = (retryAttempts[id] ?? 0) + 1
+  if (attempt > MAX_RETRIES || isJobPaused(profileJobId(id))) {
+    // 等待下一次定时更新, 届时重新开始计数
+    delete retryAttempts[id]
+    return
+  }
+  retryAttempts[id] = attempt
+  const delay = Math.min(RETRY_BASE_DELAY * 2 ** (attempt - 1), RETRY_MAX_DELAY)
+  retryPool[id] = setTimeout(
+    () => {
+      delete retryPool[id]
+      // 不经过定时任务执行, 避免重试推迟下一次定时更新
+      updateProfile(id).catch(() => {
+        // 失败原因已记录
       })
-    }
+    },
+    delay * (0.5 + Math.random())
+  )
+}
+
+function clearRetry(id: string): void {
+  if (retryPool[id]) {
+    clearTimeout(retryPool[id])
+    delete retryPool[id]
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,68 @@
+import { addProfileItem, getProfileConfig, markProfileUpdateFailed } from '../config'
+import { configLogger } from '../utils/logger'
+import { mainWindow } from '..'
+import chokidar, { FSWatcher } from 'chokidar'
+import path from 'path'
+
+const watcherPool: Record<string, { path: string; watcher: FSWatcher }> = {}
+
+export async function initProfileWatcher(): Promise<void> {
+  const { items } = await getProfileConfig()
+  for (const item of items.filter((i) => i.type === 'linked')) {
+    await addProfileWatcher(item)
+  }
+}
+
+// 监听关联的外部文件，变化后重新校验并生成配置
+export async function addProfileWatcher(item: IProfileItem): Promise<void> {
+  if (item.type !== 'linked' || !item.path) {
+    await removeProfileWatcher(item.id)
+    return
+  }
+  if (watcherPool[item.id]?.path === item.path) return
+  await removeProfileWatcher(item.id)
+
+  const file = path.resolve(item.path)
+  let timer: NodeJS.Timeout | null = null
+  // 监听所在目录，文件被删除或重命名后重新出现时仍能继续跟踪
+  const watcher = chokidar
+    .watch(path.dirname(file), {
+      depth: 0,
+      ignoreInitial: true,
+      awaitWriteFinish: { stabilityThreshold: 300 }
+    })
+    .on('all', (event, changed) => {
+      if (path.resolve(changed) !== file) return
+      if (event !== 'add' && event !== 'change' && event !== 'unlink') return
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(() => reloadLinkedProfile(item.id, event === 'unlink'), 500)
+    })
+  watcherPool[item.id] = { path: item.path, watcher }
+}
+
+async function reloadLinkedProfile(id: string, removed: boolean): Promise<void> {
+  const { items } = await getProfileConfig()
+  const current = items.find((i) => i.id === id)
+  if (!current) return
+  const startTime = Date.now()
+  try {
+    if (removed) throw new Error(`Linked file removed: ${current.path}`)
+    await addProfileItem(current)
+  } catch (e) {
+    await configLogger.warn(`Failed to reload linked profile ${current.name}`, e)
+    // 内容未通过校验时已记录拒绝原因
+    const latest = (await getProfileConfig()).items.find((i) => i.id === id)
+    if ((latest?.rejectTime ?? 0) < startTime) {
+      await markProfileUpdateFailed(id, e, (current.updateFailures ?? 0) + 1)
+    }
+  } finally {
+    mainWindow?.webContents.send('profileConfigUpdated')
+  }
+}
+
+export async function removeProfileWatcher(id: string): Promise<void> {
+  if (watcherPool[id]) {
+    await watcherPool[id].watcher.close()
+    delete watcherPool[id]
+  }
+}
@@ -0,0 +1,148 @@
+import {
+  changeCurrentProfile,
+  getAppConfig,
+  getControledMihomoConfig,
+  patchAppConfig,
+  patchControledMihomoConfig
+} from '../config'
+import { scheduleLogPath } from '../utils/dirs'
+import { patchMihomoConfig } from './mihomoApi'
+import { restartCore } from './manager'
+import { registerJob, unregisterJobs } from './jobs'
+import { triggerSysProxy } from '../sys/sysproxy'
+import { mainWindow } from '..'
+import { floatingWindow } from '../resolve/floatingWindow'
+import { ipcMain } from 'electron'
+import { existsSync } from 'fs'
+import { readFile, writeFile } from 'fs/promises'
+import { Cron } from 'croner'
+import yaml from 'yaml'
+
+const MAX_LOGS = 200
+
+export async function initSchedule(): Promise<void> {
+  unregisterJobs('schedule')
+  const { schedules = [] } = await getAppConfig()
+  for (const item of schedules) {
+    if (!item.enable) continue
+    await registerJob({
+      id: `schedule-${item.id}`,
+      type: 'schedule',
+      name: item.name,
+      cron: item.cron,
+      run: () => runSchedule(item.id)
+    })
+  }
+}
+
+export async function setSchedules(schedules: IScheduleItem[]): Promise<void> {
+  await patchAppConfig({ schedules })
+  await initSchedule()
+}
+
+export async function getScheduleNextRuns(count = 3): Promise<Record<string, number[]>> {
+  const { schedules = [] } = await getAppConfig()
+  const result: Record<string, number[]> = {}
+  for (const item of schedules) {
+    try {
+      const cron = new Cron(item.cron, { paused: true })
+      result[item.id] = cron.nextRuns(count).map((date) => date.getTime())
+      cron.stop()
+    } catch {
+      result[item.id] = []
+    }
+  }
+  return result
+}
+
+export async function runSchedule(id: string): Promise<void> {
+  const { schedules = [] } = await getAppConfig()
+  const item = schedules.find((i) => i.id === id)
+  if (!item) throw new Error('Schedule not found')
+  const log: IScheduleLog = {
+    id: item.id,
+    name: item.name,
+    action: item.action,
+    time: Date.now(),
+    success: true
+  }
+  try {
+    await runScheduleAction(item)
+  } catch (e) {
+    log.success = false
+    log.error = e instanceof Error ? e.message : `${e}`
+  }
+  await addScheduleLog(log)
+  mainWindow?.webContents.send('scheduleLogUpdated')
+  if (!log.success) throw new Error(log.error)
+}
+
+async function runScheduleAction(item: IScheduleItem): Promise<void> {
+  switch (item.action) {
+    case 'changeProfile': {
+      if (!item.profile) throw new Error('Empty profile')
+      await changeCurrentProfile(item.profile)
+      mainWindow?.webContents.send('profileConfigUpdated')
+      break
+    }
+    case 'setMode': {
+      if (!item.mode) throw new Error('Empty mode')
+      await setOutboundMode(item.mode)
+      break
+    }
+    case 'setSysProxy': {
+      await setSysProxyEnable(item.value ?? false)
+      break
+    }
+    case 'setTun': {
+      await setTunEnable(item.value ?? false)
+      break
+    }
+  }
+  ipcMain.emit('updateTrayMenu')
+}
+
+export async function setOutboundMode(mode: OutboundMode): Promise<void> {
+  await patchControledMihomoConfig({ mode })
+  await patchMihomoConfig({ mode })
+  mainWindow?.webContents.send('controledMihomoConfigUpdated')
+  mainWindow?.webContents.send('groupsUpdated')
+}
+
+export async function setSysProxyEnable(enable: boolean): Promise<void> {
+  const { sysProxy } = await getAppConfig()
+  if (sysProxy.enable === enable) return
+  await triggerSysProxy(enable)
+  await patchAppConfig({ sysProxy: { enable } })
+  mainWindow?.webContents.send('appConfigUpdated')
+  floatingWindow?.webContents.send('appConfigUpdated')
+}
+
+export async function setTunEnable(enable: boolean): Promise<void> {
+  const { tun } = await getControledMihomoConfig()
+  if ((tun?.enable ?? false) === enable) return
+  if (enable) {
+    await patchControledMihomoConfig({ tun: { enable }, dns: { enable: true } })
+  } else {
+    await patchControledMihomoConfig({ tun: { enable } })
+  }
+  await restartCore()
+  mainWindow?.webContents.send('controledMihomoConfigUpdated')
+  floatingWindow?.webContents.send('appConfigUpdated')
+}
+
+export async function getScheduleLogs(): Promise<IScheduleLog[]> {
+  if (!existsSync(scheduleLogPath())) return []
+  const list = yaml.parse(await readFile(scheduleLogPath(), 'utf-8')) || []
+  return Array.isArray(list) ? list : []
+}
+
+async function addScheduleLog(log: IScheduleLog): Promise<void> {
+  const list = await getScheduleLogs()
+  list.unshift(log)
+  await writeFile(scheduleLogPath(), yaml.stringify(list.slice(0, MAX_LOGS)), 'utf-8')
+}
+
+export async function clearScheduleLogs(): Promise<void> {
+  await writeFile(scheduleLogPath(), yaml.stringify([]), 'utf-8')
+}
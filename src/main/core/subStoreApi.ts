@@ -15,3 +15,15 @@ export async function subStoreCollections(): Promise<ISubStoreSub[]> {
   const res = await axios.get(`${baseUrl}/api/collections`, { responseType: 'json' })
   return res.data.data as ISubStoreSub[]
 }
+
+export async function subStoreSyncArtifacts(): Promise<void> {
+  const { useCustomSubStore = false, customSubStoreUrl = '' } = await getAppConfig()
+  const baseUrl = useCustomSubStore ? customSubStoreUrl : `http://127.0.0.1:${subStorePort}`
+  await axios.get(`${baseUrl}/api/sync/artifacts`, { responseType: 'json' })
+}
+
+export async function subStoreGistBackup(action: 'upload' | 'download'): Promise<void> {
+  const { useCustomSubStore = false, customSubStoreUrl = '' } = await getAppConfig()
+  const baseUrl = useCustomSubStore ? customSubStoreUrl : `http://127.0.0.1:${subStorePort}`
+  await axios.get(`${baseUrl}/api/utils/backup`, { params: { action }, responseType: 'json' })
+}
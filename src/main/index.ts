@@ -14,9 +14,16 @@ import { spawn, exec } from 'child_process'
 import { promisify } from 'util'
 import { stat } from 'fs/promises'
 import { initProfileUpdater } from './core/profileUpdater'
+import { initProfileWatcher } from './core/profileWatcher'
+import { initSchedule } from './core/schedule'
+import { initJobScheduler } from './core/jobs'
+import { initGeoUpdater } from './core/geoUpdater'
+import { initWebdavBackupJob } from './resolve/backup'
+import { startNetworkRuleCheck } from './sys/networkRule'
 import { existsSync } from 'fs'
 import { exePath } from './utils/dirs'
 import { startMonitor } from './resolve/trafficMonitor'
+import { startSubscriptionAlertCheck } from './resolve/subscriptionAlert'
 import { showFloatingWindow } from './resolve/floatingWindow'
 import { initI18n } from '../shared/i18n'
 import i18next from 'i18next'
@@ -207,6 +214,7 @@ app.whenReady().then(async () => {
   electronApp.setAppUserModelId('party.mihomo.app')
 
   await checkHighPrivilegeCoreEarly()
+  initJobScheduler()
 
   try {
     await init()
@@ -224,16 +232,28 @@ app.whenReady().then(async () => {
     app.quit()
   }
 
+  let coreStartup: Promise<void> = Promise.resolve()
   try {
     const [startPromise] = await startCore()
+    coreStartup = startPromise
     startPromise.then(async () => {
       await initProfileUpdater()
+      await initProfileWatcher()
+      await initSchedule()
+      await initGeoUpdater()
+      await initWebdavBackupJob()
       // 上次是否为了开启 TUN 而重启
       await checkAdminRestartForTun()
     })
   } catch (e) {
     showSafeErrorBox('mihomo.error.coreStartFailed', `${e}`)
   }
+  // 网络规则不依赖内核是否启动成功，等待启动结束再检测，避免与启动过程同时重启内核
+  coreStartup
+    .catch(() => {
+      // 内核启动失败时仍检测网络规则
+    })
+    .then(() => startNetworkRuleCheck())
   try {
     await startMonitor()
   } catch {
@@ -259,6 +279,7 @@ app.whenReady().then(async () => {
   if (!disableTray) {
     await createTray()
   }
+  await startSubscriptionAlertCheck()
   await initShortcut()
   app.on('activate', function () {
     // On macOS it's common to re-create a window in the app when the
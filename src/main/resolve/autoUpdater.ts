@@ -1,7 +1,7 @@
 import axios from 'axios'
 import yaml from 'yaml'
 import { app, shell } from 'electron'
-import { getControledMihomoConfig } from '../config'
+import { getEffectiveMihomoConfig } from '../config'
 import { dataDir, exeDir, exePath, isPortable, resourcesFilesDir } from '../utils/dirs'
 import { copyFile, rm, writeFile } from 'fs/promises'
 import path from 'path'
@@ -11,7 +11,7 @@ import { exec, execSync, spawn } from 'child_process'
 import { promisify } from 'util'
 
 export async function checkUpdate(): Promise<IAppVersion | undefined> {
-  const { 'mixed-port': mixedPort = 7890 } = await getControledMihomoConfig()
+  const { 'mixed-port': mixedPort = 7890 } = await getEffectiveMihomoConfig()
   const res = await axios.get(
     'https://github.com/mihomo-party-org/mihomo-party/releases/latest/download/latest.yml',
     {
@@ -52,7 +52,7 @@ function compareVersions(a: string, b: string): number {
 }
 
 export async function downloadAndInstallUpdate(version: string): Promise<void> {
-  const { 'mixed-port': mixedPort = 7890 } = await getControledMihomoConfig()
+  const { 'mixed-port': mixedPort = 7890 } = await getEffectiveMihomoConfig()
   const baseUrl = `https://github.com/mihomo-party-org/mihomo-party/releases/download/v${version}/`
   const fileMap = {
     'win32-x64': `mihomo-party-windows-${version}-x64-setup.exe`,
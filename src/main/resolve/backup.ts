@@ -1,4 +1,4 @@
-import { getAppConfig } from '../config'
+import { getAppConfig, patchAppConfig } from '../config'
 import dayjs from 'dayjs'
 import AdmZip from 'adm-zip'
 import {
@@ -13,6 +13,7 @@ import {
   themesDir
 } from '../utils/dirs'
 import { systemLogger } from '../utils/logger'
+import { registerJob, unregisterJob } from '../core/jobs'
 
 export async function webdavBackup(): Promise<boolean> {
   const { createClient } = await import('webdav/dist/node/index.js')
@@ -137,3 +138,24 @@ export async function webdavDelete(filename: string): Promise<void> {
   })
   await client.deleteFile(`${webdavDir}/${filename}`)
 }
+
+export async function initWebdavBackupJob(): Promise<void> {
+  const { webdavUrl, webdavBackupCron } = await getAppConfig()
+  if (!webdavUrl || !webdavBackupCron) {
+    unregisterJob('webdavBackup')
+    return
+  }
+  await registerJob({
+    id: 'webdavBackup',
+    type: 'backup',
+    cron: webdavBackupCron,
+    run: async () => {
+      await webdavBackup()
+    }
+  })
+}
+
+export async function setWebdavBackupCron(cron: string): Promise<void> {
+  await patchAppConfig({ webdavBackupCron: cron })
+  await initWebdavBackupJob()
+}
@@ -1,5 +1,5 @@
 import axios from 'axios'
-import { getAppConfig, getControledMihomoConfig } from '../config'
+import { getAppConfig, getEffectiveMihomoConfig } from '../config'
 import { getRuntimeConfigStr } from '../core/factory'
 
 interface GistInfo {
@@ -9,7 +9,7 @@ interface GistInfo {
 }
 
 async function listGists(token: string): Promise<GistInfo[]> {
-  const { 'mixed-port': port = 7890 } = await getControledMihomoConfig()
+  const { 'mixed-port': port = 7890 } = await getEffectiveMihomoConfig()
   const res = await axios.get('https://api.github.com/gists', {
     headers: {
       Accept: 'application/vnd.github+json',
@@ -27,7 +27,7 @@ async function listGists(token: string): Promise<GistInfo[]> {
 }
 
 async function createGist(token: string, content: string): Promise<void> {
-  const { 'mixed-port': port = 7890 } = await getControledMihomoConfig()
+  const { 'mixed-port': port = 7890 } = await getEffectiveMihomoConfig()
   return await axios.post(
     'https://api.github.com/gists',
     {
@@ -51,7 +51,7 @@ async function createGist(token: string, content: string): Promise<void> {
 }
 
 async function updateGist(token: string, id: string, content: string): Promise<void> {
-  const { 'mixed-port': port = 7890 } = await getControledMihomoConfig()
+  const { 'mixed-port': port = 7890 } = await getEffectiveMihomoConfig()
   return await axios.patch(
     `https://api.github.com/gists/${id}`,
     {
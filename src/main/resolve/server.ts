@@ -1,4 +1,4 @@
-import { getAppConfig, getControledMihomoConfig } from '../config'
+import { getAppConfig, getEffectiveMihomoConfig } from '../config'
 import { Worker } from 'worker_threads'
 import { dataDir, mihomoWorkDir, subStoreDir, substoreLogPath } from '../utils/dirs'
 import subStoreIcon from '../../../resources/subStoreIcon.png?asset'
@@ -12,6 +12,8 @@ import express from 'express'
 import axios from 'axios'
 import AdmZip from 'adm-zip'
 import { systemLogger } from '../utils/logger'
+import { registerJob, unregisterJob } from '../core/jobs'
+import { subStoreGistBackup, subStoreSyncArtifacts } from '../core/subStoreApi'
 
 export let pacPort: number
 export let subStorePort: number
@@ -55,7 +57,7 @@ export async function startPacServer(): Promise<void> {
   }
   const host = cHost || '127.0.0.1'
   let script = pacScript || defaultPacScript
-  const { 'mixed-port': port = 7890 } = await getControledMihomoConfig()
+  const { 'mixed-port': port = 7890 } = await getEffectiveMihomoConfig()
   script = script.replaceAll('%mixed-port%', port.toString())
   pacPort = await findAvailablePort(10000)
   pacServer = http
@@ -93,12 +95,10 @@ export async function startSubStoreBackendServer(): Promise<void> {
     useSubStore = true,
     useCustomSubStore = false,
     useProxyInSubStore = false,
-    subStoreHost = '127.0.0.1',
-    subStoreBackendSyncCron = '',
-    subStoreBackendDownloadCron = '',
-    subStoreBackendUploadCron = ''
+    subStoreHost = '127.0.0.1'
   } = await getAppConfig()
-  const { 'mixed-port': port = 7890 } = await getControledMihomoConfig()
+  const { 'mixed-port': port = 7890 } = await getEffectiveMihomoConfig()
+  await initSubStoreJobs()
   if (!useSubStore) return
   if (!useCustomSubStore) {
     await stopSubStoreBackendServer()
@@ -113,9 +113,6 @@ export async function startSubStoreBackendServer(): Promise<void> {
       SUB_STORE_DATA_BASE_PATH: subStoreDir(),
       SUB_STORE_BACKEND_CUSTOM_ICON: icon.toDataURL(),
       SUB_STORE_BACKEND_CUSTOM_NAME: 'Mihomo Party',
-      SUB_STORE_BACKEND_SYNC_CRON: subStoreBackendSyncCron,
-      SUB_STORE_BACKEND_DOWNLOAD_CRON: subStoreBackendDownloadCron,
-      SUB_STORE_BACKEND_UPLOAD_CRON: subStoreBackendUploadCron,
       SUB_STORE_MMDB_COUNTRY_PATH: path.join(mihomoWorkDir(), 'country.mmdb'),
       SUB_STORE_MMDB_ASN_PATH: path.join(mihomoWorkDir(), 'ASN.mmdb')
     }
@@ -134,6 +131,32 @@ export async function startSubStoreBackendServer(): Promise<void> {
   }
 }
 
+// Sub-Store 的定时任务由应用统一调度, 同样适用于自定义后端
+export async function initSubStoreJobs(): Promise<void> {
+  const {
+    useSubStore = true,
+    subStoreBackendSyncCron = '',
+    subStoreBackendDownloadCron = '',
+    subStoreBackendUploadCron = ''
+  } = await getAppConfig()
+  const jobs = [
+    { id: 'substoreSync', cron: subStoreBackendSyncCron, run: subStoreSyncArtifacts },
+    {
+      id: 'substoreDownload',
+      cron: subStoreBackendDownloadCron,
+      run: () => subStoreGistBackup('download')
+    },
+    { id: 'substoreUpload', cron: subStoreBackendUploadCron, run: () => subStoreGistBackup('upload') }
+  ]
+  for (const { id, cron, run } of jobs) {
+    if (useSubStore && cron) {
+      await registerJob({ id, type: 'substore', cron, run })
+    } else {
+      unregisterJob(id)
+    }
+  }
+}
+
 export async function stopSubStoreBackendServer(): Promise<void> {
   if (subStoreBackendWorker) {
     subStoreBackendWorker.terminate()
@@ -141,7 +164,7 @@ export async function stopSubStoreBackendServer(): Promise<void> {
 }
 
 export async function downloadSubStore(): Promise<void> {
-  const { 'mixed-port': mixedPort = 7890 } = await getControledMihomoConfig()
+  const { 'mixed-port': mixedPort = 7890 } = await getEffectiveMihomoConfig()
   const frontendDir = path.join(mihomoWorkDir(), 'sub-store-frontend')
   const backendPath = path.join(mihomoWorkDir(), 'sub-store.bundle.cjs')
   const tempDir = path.join(dataDir(), 'temp')
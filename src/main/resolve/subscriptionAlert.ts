@@ -0,0 +1,92 @@
+import { getAppConfig, getProfileConfig, setProfileConfig } from '../config'
+import { mainWindow } from '..'
+import { ipcMain, Notification } from 'electron'
+import { t } from 'i18next'
+import { registerJob } from '../core/jobs'
+
+function calcAlertState(
+  extra: ISubscriptionUserInfo | undefined,
+  trafficThreshold: number,
+  expireThreshold: number
+): ISubscriptionAlertState {
+  const state: ISubscriptionAlertState = {}
+  if (!extra) return state
+  if (extra.total > 0) {
+    const remaining = extra.total - (extra.upload ?? 0) - (extra.download ?? 0)
+    state.traffic = (remaining / extra.total) * 100 <= trafficThreshold
+  }
+  if (extra.expire > 0) {
+    const days = (extra.expire * 1000 - Date.now()) / 86400000
+    state.expire = days <= expireThreshold
+  }
+  return state
+}
+
+// 检查订阅流量与到期时间，每次越过阈值只提醒一次
+export async function checkSubscriptionAlerts(): Promise<void> {
+  const {
+    subscriptionAlert = true,
+    subscriptionAlertTraffic = 10,
+    subscriptionAlertExpire = 3
+  } = await getAppConfig()
+  const config = await getProfileConfig()
+  let changed = false
+  for (const item of config.items) {
+    const prev = item.alertState || {}
+    const state = subscriptionAlert
+      ? calcAlertState(item.extra, subscriptionAlertTraffic, subscriptionAlertExpire)
+      : {}
+    if (state.traffic && !prev.traffic) {
+      new Notification({
+        title: t('profiles.alert.trafficTitle', { name: item.name }),
+        body: t('profiles.alert.trafficBody', { threshold: subscriptionAlertTraffic })
+      }).show()
+    }
+    if (state.expire && !prev.expire) {
+      new Notification({
+        title: t('profiles.alert.expireTitle', { name: item.name }),
+        body: t('profiles.alert.expireBody', { days: subscriptionAlertExpire })
+      }).show()
+    }
+    if (!!state.traffic !== !!prev.traffic || !!state.expire !== !!prev.expire) {
+      item.alertState = state.traffic || state.expire ? state : undefined
+      changed = true
+    }
+  }
+  if (changed) {
+    await setProfileConfig(config)
+    mainWindow?.webContents.send('profileConfigUpdated')
+  }
+  ipcMain.emit('updateTrayMenu')
+}
+
+export async function startSubscriptionAlertCheck(): Promise<void> {
+  try {
+    await checkSubscriptionAlerts()
+  } catch {
+    // ignore
+  }
+  await registerJob({
+    id: 'subscriptionAlert',
+    type: 'alert',
+    interval: 60,
+    run: checkSubscriptionAlerts
+  })
+}
+
+// 托盘菜单中显示的订阅提醒
+export async function getSubscriptionAlertLabels(): Promise<string[]> {
+  const { subscriptionAlert = true, subscriptionAlertInTray = false } = await getAppConfig()
+  if (!subscriptionAlert || !subscriptionAlertInTray) return []
+  const { items } = await getProfileConfig()
+  const labels: string[] = []
+  for (const item of items) {
+    if (item.alertState?.traffic) {
+      labels.push(t('profiles.alert.trafficTray', { name: item.name }))
+    }
+    if (item.alertState?.expire) {
+      labels.push(t('profiles.alert.expireTray', { name: item.name }))
+    }
+  }
+  return labels
+}
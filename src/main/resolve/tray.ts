@@ -2,6 +2,7 @@ import {
   changeCurrentProfile,
   getAppConfig,
   getControledMihomoConfig,
+  getEffectiveMihomoConfig,
   getProfileConfig,
   patchAppConfig,
   patchControledMihomoConfig
@@ -23,6 +24,7 @@ import { quitWithoutCore, restartCore, checkMihomoCorePermissions, requestTunPer
 import { floatingWindow, triggerFloatingWindow } from './floatingWindow'
 import { t } from 'i18next'
 import { trayLogger } from '../utils/logger'
+import { getSubscriptionAlertLabels } from './subscriptionAlert'
 
 export let tray: Tray | null = null
 
@@ -48,6 +50,7 @@ export const buildContextMenu = async (): Promise<Menu> => {
     quitWithoutCoreShortcut = '',
     restartAppShortcut = ''
   } = await getAppConfig()
+  const alertLabels = await getSubscriptionAlertLabels()
   let groupsMenu: Electron.MenuItemConstructorOptions[] = []
   if (proxyInTray && process.platform !== 'linux') {
     try {
@@ -224,6 +227,7 @@ export const buildContextMenu = async (): Promise<Menu> => {
     },
     ...groupsMenu,
     { type: 'separator' },
+    ...alertLabels.map((label) => ({ label, type: 'normal', enabled: false })),
     {
       type: 'submenu',
       label: t('tray.profiles'),
@@ -385,7 +389,7 @@ async function updateTrayMenu(): Promise<void> {
 }
 
 export async function copyEnv(type: 'bash' | 'cmd' | 'powershell'): Promise<void> {
-  const { 'mixed-port': mixedPort = 7890 } = await getControledMihomoConfig()
+  const { 'mixed-port': mixedPort = 7890 } = await getEffectiveMihomoConfig()
   const { sysProxy } = await getAppConfig()
   const { host } = sysProxy
   switch (type) {
@@ -0,0 +1,256 @@
+import { exec, spawn, ChildProcess } from 'child_process'
+import { promisify } from 'util'
+import { readFile } from 'fs/promises'
+import { existsSync } from 'fs'
+import {
+  changeCurrentProfile,
+  getAppConfig,
+  getControledMihomoConfig,
+  getProfileConfig,
+  patchAppConfig
+} from '../config'
+import { mihomoChangeProxy, mihomoProxies } from '../core/mihomoApi'
+import { setOutboundMode, setSysProxyEnable, setTunEnable } from '../core/schedule'
+import { getCurrentSSID } from './ssid'
+import { systemLogger } from '../utils/logger'
+import { mainWindow } from '..'
+import { ipcMain } from 'electron'
+
+const POLL_INTERVAL = 30000
+
+let pollTimer: NodeJS.Timeout | null = null
+let monitorProcess: ChildProcess | null = null
+let monitorTimer: NodeJS.Timeout | null = null
+let lastNetworkKey: string | undefined
+let checking = false
+
+export async function getNetworkInfo(): Promise<INetworkInfo> {
+  const [ssid, route, dnsSuffix] = await Promise.all([
+    getCurrentSSID().catch(() => undefined),
+    getDefaultRoute().catch(() => ({})),
+    getDNSSuffix().catch(() => [])
+  ])
+  return { ssid, ...route, dnsSuffix }
+}
+
+export async function setNetworkRules(networkRules: INetworkRule[]): Promise<void> {
+  await patchAppConfig({ networkRules })
+  await checkNetworkRules(true)
+}
+
+export async function checkNetworkRules(force = false): Promise<void> {
+  if (checking) return
+  checking = true
+  try {
+    const { networkRules = [], activeNetworkRule } = await getAppConfig()
+    if (networkRules.length === 0 && !activeNetworkRule) return
+    const info = await getNetworkInfo()
+    const key = JSON.stringify(info)
+    if (!force && key === lastNetworkKey) return
+    lastNetworkKey = key
+    const rule = networkRules.find((r) => r.enable && matchNetworkRule(r, info))
+    if (!force && rule?.id === activeNetworkRule) return
+    // 离开原网络时先恢复之前的状态
+    if (activeNetworkRule) {
+      await restoreNetworkState()
+    }
+    if (rule) {
+      await saveNetworkState(rule)
+      try {
+        await applyNetworkRule(rule)
+      } catch (e) {
+        // 部分设置已生效时恢复到规则生效前的状态
+        await restoreNetworkState().catch((err) =>
+          systemLogger.error('Failed to roll back network rule', err)
+        )
+        throw e
+      }
+    }
+    await patchAppConfig({ activeNetworkRule: rule?.id })
+    mainWindow?.webContents.send('appConfigUpdated')
+    ipcMain.emit('updateTrayMenu')
+  } catch (e) {
+    // 下次检测时重试
+    lastNetworkKey = undefined
+    await systemLogger.error('Failed to apply network rule', e)
+    mainWindow?.webContents.send('appConfigUpdated')
+    ipcMain.emit('updateTrayMenu')
+  } finally {
+    checking = false
+  }
+}
+
+export async function startNetworkRuleCheck(): Promise<void> {
+  await checkNetworkRules()
+  if (process.platform === 'linux' && startNetworkMonitor()) return
+  pollTimer = setInterval(checkNetworkRules, POLL_INTERVAL)
+}
+
+function matchNetworkRule(rule: INetworkRule, info: INetworkInfo): boolean {
+  const value = rule.value.trim()
+  if (!value) return false
+  switch (rule.match) {
+    case 'ssid':
+      return info.ssid === value
+    case 'gateway':
+      return info.gateway === value
+    case 'interface':
+      return info.interface === value
+    case 'dnsSuffix': {
+      const suffix = value.toLowerCase().replace(/^\./, '')
+      return info.dnsSuffix.some((domain) => {
+        const d = domain.toLowerCase()
+        return d === suffix || d.endsWith(`.${suffix}`)
+      })
+    }
+  }
+}
+
+async function saveNetworkState(rule: INetworkRule): Promise<void> {
+  const { sysProxy } = await getAppConfig()
+  const { mode = 'rule', tun } = await getControledMihomoConfig()
+  const { current } = await getProfileConfig()
+  const state: INetworkState = {}
+  if (rule.profile) state.profile = current
+  if (rule.mode) state.mode = mode
+  if (rule.sysProxy !== undefined) state.sysProxy = sysProxy.enable
+  if (rule.tun !== undefined) state.tun = tun?.enable ?? false
+  if (rule.group && rule.proxy) {
+    try {
+      const { proxies } = await mihomoProxies()
+      const group = proxies[rule.group]
+      if (group && 'now' in group) {
+        state.group = rule.group
+        state.proxy = group.now
+      }
+    } catch {
+      // 内核未运行
+    }
+  }
+  await patchAppConfig({ networkRuleSnapshot: state })
+}
+
+async function restoreNetworkState(): Promise<void> {
+  const { networkRuleSnapshot } = await getAppConfig()
+  if (networkRuleSnapshot) {
+    await applyNetworkState(networkRuleSnapshot)
+  }
+  await patchAppConfig({ networkRuleSnapshot: undefined, activeNetworkRule: undefined })
+}
+
+async function applyNetworkRule(rule: INetworkRule): Promise<void> {
+  const { profile, mode, sysProxy, tun, group, proxy } = rule
+  await applyNetworkState({ profile, mode, sysProxy, tun, group, proxy })
+}
+
+async function applyNetworkState(state: INetworkState): Promise<void> {
+  const { current } = await getProfileConfig()
+  // 切换配置和 TUN 会重启内核, 需要在切换节点之前完成
+  if (state.profile && state.profile !== current) {
+    await changeCurrentProfile(state.profile)
+    mainWindow?.webContents.send('profileConfigUpdated')
+  }
+  if (state.tun !== undefined) {
+    await setTunEnable(state.tun)
+  }
+  if (state.mode) {
+    await setOutboundMode(state.mode)
+  }
+  if (state.sysProxy !== undefined) {
+    await setSysProxyEnable(state.sysProxy)
+  }
+  if (state.group && state.proxy) {
+    try {
+      await mihomoChangeProxy(state.group, state.proxy)
+      mainWindow?.webContents.send('groupsUpdated')
+    } catch {
+      // 代理组不存在
+    }
+  }
+}
+
+// 监听 NetworkManager 的网络变化事件, 不可用时回退到轮询
+function startNetworkMonitor(): boolean {
+  try {
+    monitorProcess = spawn('nmcli', ['monitor'], { stdio: ['ignore', 'pipe', 'ignore'] })
+  } catch {
+    return false
+  }
+  monitorProcess.stdout?.on('data', () => {
+    if (monitorTimer) clearTimeout(monitorTimer)
+    monitorTimer = setTimeout(() => {
+      monitorTimer = null
+      checkNetworkRules()
+    }, 2000)
+  })
+  monitorProcess.on('error', () => {
+    monitorProcess = null
+    if (!pollTimer) pollTimer = setInterval(checkNetworkRules, POLL_INTERVAL)
+  })
+  monitorProcess.on('exit', () => {
+    monitorProcess = null
+    if (!pollTimer) pollTimer = setInterval(checkNetworkRules, POLL_INTERVAL)
+  })
+  return true
+}
+
+async function getDefaultRoute(): Promise<{ gateway?: string; interface?: string }> {
+  const execPromise = promisify(exec)
+  if (process.platform === 'linux') {
+    const { stdout } = await execPromise('ip route show default')
+    const line = stdout.split('\n').find((l) => l.startsWith('default'))
+    if (!line) return {}
+    return {
+      gateway: line.match(/\svia\s(\S+)/)?.[1],
+      interface: line.match(/\sdev\s(\S+)/)?.[1]
+    }
+  }
+  if (process.platform === 'darwin') {
+    const { stdout } = await execPromise('route -n get default')
+    return {
+      gateway: stdout.match(/gateway:\s*(\S+)/)?.[1],
+      interface: stdout.match(/interface:\s*(\S+)/)?.[1]
+    }
+  }
+  if (process.platform === 'win32') {
+    const { stdout } = await execPromise(
+      `Get-NetRoute -DestinationPrefix '0.0.0.0/0' | Sort-Object RouteMetric | Select-Object -First 1 | ForEach-Object { "$($_.NextHop)|$($_.InterfaceAlias)" }`,
+      { shell: 'powershell' }
+    )
+    const [gateway, name] = stdout.trim().split('|')
+    return { gateway: gateway || undefined, interface: name || undefined }
+  }
+  return {}
+}
+
+async function getDNSSuffix(): Promise<string[]> {
+  const execPromise = promisify(exec)
+  const domains = new Set<string>()
+  if (process.platform === 'linux') {
+    if (!existsSync('/etc/resolv.conf')) return []
+    const content = await readFile('/etc/resolv.conf', 'utf-8')
+    for (const line of content.split('\n')) {
+      const [key, ...values] = line.trim().split(/\s+/)
+      if (key === 'search' || key === 'domain') values.forEach((v) => domains.add(v))
+    }
+  }
+  if (process.platform === 'darwin') {
+    const { stdout } = await execPromise('scutil --dns')
+    for (const line of stdout.split('\n')) {
+      const match = line.match(/^\s*(?:search domain\[\d+\]|domain)\s*:\s*(\S+)/)
+      if (match) domains.add(match[1])
+    }
+  }
+  if (process.platform === 'win32') {
+    const { stdout } = await execPromise(
+      'Get-DnsClient | Where-Object ConnectionSpecificSuffix | Select-Object -ExpandProperty ConnectionSpecificSuffix',
+      { shell: 'powershell' }
+    )
+    stdout
+      .split('\n')
+      .map((v) => v.trim())
+      .filter(Boolean)
+      .forEach((v) => domains.add(v))
+  }
+  return Array.from(domains)
+}
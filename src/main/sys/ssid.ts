@@ -1,9 +1,6 @@
 import { exec } from 'child_process'
 import { promisify } from 'util'
-import { getAppConfig, patchControledMihomoConfig } from '../config'
-import { patchMihomoConfig } from '../core/mihomoApi'
-import { mainWindow } from '..'
-import { ipcMain, net } from 'electron'
+import { net } from 'electron'
 import { getDefaultDevice } from '../core/manager'
 
 export async function getCurrentSSID(): Promise<string | undefined> {
@@ -31,35 +28,6 @@ export async function getCurrentSSID(): Promise<string | undefined> {
   return undefined
 }
 
-let lastSSID: string | undefined
-export async function checkSSID(): Promise<void> {
-  try {
-    const { pauseSSID = [] } = await getAppConfig()
-    if (pauseSSID.length === 0) return
-    const currentSSID = await getCurrentSSID()
-    if (currentSSID === lastSSID) return
-    lastSSID = currentSSID
-    if (currentSSID && pauseSSID.includes(currentSSID)) {
-      await patchControledMihomoConfig({ mode: 'direct' })
-      await patchMihomoConfig({ mode: 'direct' })
-      mainWindow?.webContents.send('controledMihomoConfigUpdated')
-      ipcMain.emit('updateTrayMenu')
-    } else {
-      await patchControledMihomoConfig({ mode: 'rule' })
-      await patchMihomoConfig({ mode: 'rule' })
-      mainWindow?.webContents.send('controledMihomoConfigUpdated')
-      ipcMain.emit('updateTrayMenu')
-    }
-  } catch {
-    // ignore
-  }
-}
-
-export async function startSSIDCheck(): Promise<void> {
-  await checkSSID()
-  setInterval(checkSSID, 30000)
-}
-
 async function getSSIDByAirport(): Promise<string | undefined> {
   const execPromise = promisify(exec)
   const { stdout } = await execPromise(
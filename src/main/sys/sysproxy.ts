@@ -1,5 +1,5 @@
 import { triggerAutoProxy, triggerManualProxy } from '@mihomo-party/sysproxy'
-import { getAppConfig, getControledMihomoConfig } from '../config'
+import { getAppConfig, getEffectiveMihomoConfig } from '../config'
 import { pacPort, startPacServer, stopPacServer } from '../resolve/server'
 import { promisify } from 'util'
 import { execFile } from 'child_process'
@@ -70,7 +70,7 @@ async function enableSysProxy(): Promise<void> {
   await startPacServer()
   const { sysProxy } = await getAppConfig()
   const { mode, host, bypass = defaultBypass } = sysProxy
-  const { 'mixed-port': port = 7890 } = await getControledMihomoConfig()
+  const { 'mixed-port': port = 7890 } = await getEffectiveMihomoConfig()
   const execFilePromise = promisify(execFile)
   switch (mode || 'manual') {
     case 'auto': {
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { mergeProfiles } from './composite'
+
+function profile(config: Record<string, unknown>): IMihomoConfig {
+  return config as unknown as IMihomoConfig
+}
+
+const primary = profile({
+  'mixed-port': 7890,
+  proxies: [
+    { name: 'HK 01', type: 'ss' },
+    { name: 'US 01', type: 'ss' }
+  ],
+  'proxy-groups': [
+    { name: 'PROXY', type: 'select', proxies: ['Auto', 'HK 01', 'US 01'] },
+    { name: 'Auto', type: 'url-test', proxies: ['HK 01', 'US 01'] },
+    { name: 'AdBlock', type: 'select', proxies: ['REJECT', 'DIRECT'] }
+  ],
+  rules: ['MATCH,PROXY']
+})
+
+const secondary = profile({
+  proxies: [
+    { name: 'HK 01', type: 'vmess' },
+    { name: 'JP 01', type: 'vmess' }
+  ],
+  'proxy-providers': { remote: { type: 'http', url: 'https://example.com/nodes' } },
+  'proxy-groups': [{ name: 'Ignored', type: 'select', proxies: ['JP 01'] }],
+  rules: ['MATCH,DIRECT']
+})
+
+describe('mergeProfiles', () => {
+  it('keeps the primary settings and renames conflicting proxies', () => {
+    const result = mergeProfiles([
+      { name: 'Main', profile: primary },
+      { name: 'Extra', profile: secondary }
+    ])
+    expect(result['mixed-port']).toBe(7890)
+    expect(result.rules).toEqual(['MATCH,PROXY'])
+    const proxies = result.proxies as { name: string }[]
+    expect(proxies.map((proxy) => proxy.name)).toEqual(['HK 01', 'US 01', 'HK 01 | Extra', 'JP 01'])
+  })
+
+  it('makes merged proxies reachable from the primary selectors', () => {
+    const result = mergeProfiles([
+      { name: 'Main', profile: primary },
+      { name: 'Extra', profile: secondary }
+    ])
+    expect(result['proxy-groups']).toEqual([
+      { name: 'PROXY', type: 'select', proxies: ['Auto', 'HK 01', 'US 01', 'Extra'] },
+      { name: 'Auto', type: 'url-test', proxies: ['HK 01', 'US 01'] },
+      { name: 'AdBlock', type: 'select', proxies: ['REJECT', 'DIRECT'] },
+      { name: 'Extra', type: 'select', proxies: ['HK 01 | Extra', 'JP 01'], use: ['remote'] }
+    ])
+    expect(result['proxy-providers']).toEqual({
+      remote: { type: 'http', url: 'https://example.com/nodes' }
+    })
+  })
+
+  it('avoids group names taken by proxies or groups', () => {
+    const result = mergeProfiles([
+      { name: 'Main', profile: primary },
+      { name: 'PROXY', profile: profile({ proxies: [{ name: 'SG 01', type: 'ss' }] }) },
+      { name: 'US 01', profile: profile({ proxies: [{ name: 'TW 01', type: 'ss' }] }) },
+      { name: 'Empty', profile: profile({ proxies: [] }) }
+    ])
+    const groups = result['proxy-groups'] as { name: string; proxies: string[] }[]
+    expect(groups.map((group) => group.name)).toEqual([
+      'PROXY',
+      'Auto',
+      'AdBlock',
+      'PROXY 2',
+      'US 01 2'
+    ])
+    expect(groups[0].proxies).toEqual(['Auto', 'HK 01', 'US 01', 'PROXY 2', 'US 01 2'])
+  })
+})
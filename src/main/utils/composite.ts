@@ -0,0 +1,92 @@
+type NamedConfig = { name: string } & Record<string, unknown>
+
+interface CompositeSource {
+  name: string
+  profile: IMihomoConfig
+}
+
+// 合并多个订阅的节点，代理组和规则等其余配置取自第一个 (主) 订阅
+// 其余订阅的节点放入以订阅名称命名的代理组，并追加到主订阅选择节点的代理组中
+export function mergeProfiles(sources: CompositeSource[]): IMihomoConfig {
+  const [primary, ...secondary] = sources
+  if (!primary) throw new Error('No source profiles')
+
+  const proxies: Record<string, unknown>[] = []
+  const providers: Record<string, unknown> = {}
+  const proxyNames = new Set<string>()
+  const addSource = ({ name: sourceName, profile }: CompositeSource): [string[], string[]] => {
+    const names: string[] = []
+    const uses: string[] = []
+    for (const proxy of (profile.proxies ?? []) as Record<string, unknown>[]) {
+      if (!proxy || typeof proxy.name !== 'string') continue
+      const name = uniqueName(proxy.name, sourceName, proxyNames)
+      proxyNames.add(name)
+      proxies.push({ ...proxy, name })
+      names.push(name)
+    }
+    for (const [key, provider] of Object.entries(profile['proxy-providers'] ?? {})) {
+      const name = uniqueName(key, sourceName, new Set(Object.keys(providers)))
+      providers[name] = provider
+      uses.push(name)
+    }
+    return [names, uses]
+  }
+
+  // 主订阅优先，保证代理组引用的节点名称不变
+  const [primaryProxies] = addSource(primary)
+  const members = secondary.map(addSource)
+  const groups = namedList(primary.profile['proxy-groups'])
+  const taken = new Set([...proxyNames, ...groups.map((g) => g.name), 'DIRECT', 'REJECT'])
+  const sourceGroups: NamedConfig[] = []
+  secondary.forEach((source, index) => {
+    const [names, uses] = members[index]
+    if (names.length === 0 && uses.length === 0) return
+    let name = source.name
+    for (let i = 2; taken.has(name); i++) {
+      name = `${source.name} ${i}`
+    }
+    taken.add(name)
+    sourceGroups.push({
+      name,
+      type: 'select',
+      ...(names.length > 0 ? { proxies: names } : {}),
+      ...(uses.length > 0 ? { use: uses } : {})
+    })
+  })
+
+  // 只追加到包含主订阅节点或节点集合的选择组，避免影响拦截等用途的代理组
+  const primaryNames = new Set(primaryProxies)
+  const sourceGroupNames = sourceGroups.map((g) => g.name)
+  const mergedGroups = groups.map((group) => {
+    const current = Array.isArray(group.proxies) ? (group.proxies as string[]) : []
+    const selectsNodes =
+      current.some((p) => primaryNames.has(p)) || (Array.isArray(group.use) && group.use.length > 0)
+    if (group.type !== 'select' || !selectsNodes) return group
+    return { ...group, proxies: [...current, ...sourceGroupNames] }
+  })
+
+  return {
+    ...primary.profile,
+    proxies: proxies as [],
+    ...(mergedGroups.length > 0 || sourceGroups.length > 0
+      ? { 'proxy-groups': [...mergedGroups, ...sourceGroups] as [] }
+      : {}),
+    ...(Object.keys(providers).length > 0 ? { 'proxy-providers': providers } : {})
+  }
+}
+
+function namedList(list: unknown): NamedConfig[] {
+  if (!Array.isArray(list)) return []
+  return list.filter((i) => i && typeof i === 'object' && typeof i.name === 'string')
+}
+
+// 名称冲突时追加来源订阅名称，仍冲突则追加序号
+function uniqueName(name: string, source: string, taken: Set<string>): string {
+  if (!taken.has(name)) return name
+  const base = `${name} | ${source}`
+  let candidate = base
+  for (let i = 2; taken.has(candidate); i++) {
+    candidate = `${base} ${i}`
+  }
+  return candidate
+}
@@ -96,6 +96,18 @@ export function profilePath(id: string): string {
   return path.join(profilesDir(), `${id}.yaml`)
 }
 
+export function profileHistoryDir(id: string): string {
+  return path.join(dataDir(), 'history', id)
+}
+
+export function profileHistoryPath(id: string, version: string): string {
+  return path.join(profileHistoryDir(id), `${version}.yaml`)
+}
+
+export function profilePendingPath(id: string): string {
+  return path.join(profileHistoryDir(id), 'pending.yaml')
+}
+
 export function overrideDir(): string {
   return path.join(dataDir(), 'override')
 }
@@ -120,6 +132,10 @@ export function mihomoTestDir(): string {
   return path.join(dataDir(), 'test')
 }
 
+export function mihomoStagingConfigPath(id: string): string {
+  return path.join(mihomoTestDir(), `${id}.staging.yaml`)
+}
+
 export function mihomoWorkConfigPath(id: string | undefined): string {
   if (id === 'work') {
     return path.join(mihomoWorkDir(), 'config.yaml')
@@ -150,6 +166,14 @@ export function substoreLogPath(): string {
   return path.join(logDir(), `${name}.log`)
 }
 
+export function scheduleLogPath(): string {
+  return path.join(logDir(), 'schedule.yaml')
+}
+
+export function jobStatePath(): string {
+  return path.join(dataDir(), 'jobs.yaml')
+}
+
 export function coreLogPath(): string {
   const date = new Date()
   const year = date.getFullYear()
@@ -1,8 +1,8 @@
 import axios from 'axios'
-import { getControledMihomoConfig } from '../config'
+import { getEffectiveMihomoConfig } from '../config'
 
 export async function getImageDataURL(url: string): Promise<string> {
-  const { 'mixed-port': port = 7890 } = await getControledMihomoConfig()
+  const { 'mixed-port': port = 7890 } = await getEffectiveMihomoConfig()
   const res = await axios.get(url, {
     responseType: 'arraybuffer',
     proxy: {
@@ -40,7 +40,6 @@ import {
   patchControledMihomoConfig
 } from '../config'
 import { app, dialog } from 'electron'
-import { startSSIDCheck } from '../sys/ssid'
 import i18next from '../../shared/i18n'
 import { initLogger } from './logger'
 
@@ -240,7 +239,13 @@ async function migration(): Promise<void> {
     useSubStore = true,
     showFloatingWindow = false,
     disableTray = false,
-    encryptedPassword
+    encryptedPassword,
+    pauseSSID,
+    networkRules,
+    controlDns,
+    controlSniff,
+    useNameserverPolicy,
+    configPolicy
   } = await getAppConfig()
   const {
     'external-controller-pipe': externalControllerPipe,
@@ -251,12 +256,48 @@ async function migration(): Promise<void> {
     'bind-address': bindAddress,
     'lan-allowed-ips': lanAllowedIps,
     'lan-disallowed-ips': lanDisallowedIps,
-    tun
+    tun,
+    dns
   } = await getControledMihomoConfig()
   // add substore sider card
   if (useSubStore && !siderOrder.includes('substore')) {
     await patchAppConfig({ siderOrder: [...siderOrder, 'substore'] })
   }
+  // migrate pause ssid to network rules
+  if (pauseSSID) {
+    if (!networkRules) {
+      await patchAppConfig({
+        networkRules: pauseSSID.map((ssid, index) => ({
+          id: `${Date.now().toString(16)}${index}`,
+          name: ssid,
+          enable: true,
+          match: 'ssid',
+          value: ssid,
+          mode: 'direct'
+        }))
+      })
+    }
+    await patchAppConfig({ pauseSSID: undefined })
+  }
+  // migrate control switches to config policy
+  if (controlDns !== undefined || controlSniff !== undefined || useNameserverPolicy !== undefined) {
+    if (!configPolicy) {
+      await patchAppConfig({
+        configPolicy: {
+          ...(controlDns === false ? { dns: 'profile', hosts: 'profile' } : {}),
+          ...(controlSniff === false ? { sniffer: 'profile' } : {})
+        }
+      })
+    }
+    if (!useNameserverPolicy && dns?.['nameserver-policy']) {
+      await patchControledMihomoConfig({ dns: { 'nameserver-policy': undefined } })
+    }
+    await patchAppConfig({
+      controlDns: undefined,
+      controlSniff: undefined,
+      useNameserverPolicy: undefined
+    })
+  }
   // add default skip auth prefix
   if (!skipAuthPrefixes) {
     await patchControledMihomoConfig({ 'skip-auth-prefixes': ['127.0.0.1/32'] })
@@ -351,7 +392,6 @@ export async function init(): Promise<void> {
   } catch {
     // ignore
   }
-  await startSSIDCheck()
 
   initDeeplink()
 }
@@ -38,6 +38,11 @@ import {
   setProfileStr,
   updateProfileItem,
   setProfileConfig,
+  getProfileHistory,
+  getProfileHistoryStr,
+  restoreProfileHistory,
+  acceptProfileUpdate,
+  discardProfileUpdate,
   getOverrideConfig,
   setOverrideConfig,
   getOverrideItem,
@@ -50,6 +55,7 @@ import {
 import {
   startSubStoreFrontendServer,
   startSubStoreBackendServer,
+  initSubStoreJobs,
   stopSubStoreFrontendServer,
   stopSubStoreBackendServer,
   downloadSubStore,
@@ -59,6 +65,7 @@ import {
 import {
   quitWithoutCore,
   restartCore,
+  previewOverridePipeline,
   checkTunPermissions,
   grantTunPermissions,
   manualGrantCorePermition,
@@ -81,8 +88,20 @@ import {
   setNativeTheme,
   setupFirewall
 } from '../sys/misc'
-import { getRuntimeConfig, getRuntimeConfigStr } from '../core/factory'
-import { listWebdavBackups, webdavBackup, webdavDelete, webdavRestore } from '../resolve/backup'
+import {
+  getConfigPolicyExplain,
+  getOverrideStatus,
+  getRuntimeConfig,
+  getRuntimeConfigStr,
+  getRuntimeProvenance
+} from '../core/factory'
+import {
+  listWebdavBackups,
+  setWebdavBackupCron,
+  webdavBackup,
+  webdavDelete,
+  webdavRestore
+} from '../resolve/backup'
 import { getInterfaces } from '../sys/interface'
 import { closeTrayIcon, copyEnv, showTrayIcon, updateTrayIcon } from '../resolve/tray'
 import { registerShortcut } from '../resolve/shortcut'
@@ -105,6 +124,18 @@ import { startMonitor } from '../resolve/trafficMonitor'
 import { closeFloatingWindow, showContextMenu, showFloatingWindow } from '../resolve/floatingWindow'
 import i18next from 'i18next'
 import { addProfileUpdater } from '../core/profileUpdater'
+import { checkSubscriptionAlerts } from '../resolve/subscriptionAlert'
+import {
+  clearScheduleLogs,
+  getScheduleLogs,
+  getScheduleNextRuns,
+  runSchedule,
+  setSchedules
+} from '../core/schedule'
+import { getNetworkInfo, setNetworkRules } from '../sys/networkRule'
+import { getJobHistory, getJobs, pauseJob, resumeJob, runJob } from '../core/jobs'
+import { initGeoUpdater } from '../core/geoUpdater'
+import { previewProxyFilter } from './proxyFilter'
 
 function ipcErrorWrapper<T>( // eslint-disable-next-line @typescript-eslint/no-explicit-any
   fn: (...args: any[]) => Promise<T> // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -179,6 +210,9 @@ export function registerIpcMainHandlers(): void {
   ipcMain.handle('getCurrentProfileItem', ipcErrorWrapper(getCurrentProfileItem))
   ipcMain.handle('getProfileItem', (_e, id) => ipcErrorWrapper(getProfileItem)(id))
   ipcMain.handle('getProfileStr', (_e, id) => ipcErrorWrapper(getProfileStr)(id))
+  ipcMain.handle('previewProxyFilter', (_e, id, filter) =>
+    ipcErrorWrapper(previewProxyFilter)(id, filter)
+  )
   ipcMain.handle('getFileStr', (_e, path) => ipcErrorWrapper(getFileStr)(path))
   ipcMain.handle('setFileStr', (_e, path, str) => ipcErrorWrapper(setFileStr)(path, str))
   ipcMain.handle('setProfileStr', (_e, id, str) => ipcErrorWrapper(setProfileStr)(id, str))
@@ -186,6 +220,29 @@ export function registerIpcMainHandlers(): void {
   ipcMain.handle('changeCurrentProfile', (_e, id) => ipcErrorWrapper(changeCurrentProfile)(id))
   ipcMain.handle('addProfileItem', (_e, item) => ipcErrorWrapper(addProfileItem)(item))
   ipcMain.handle('removeProfileItem', (_e, id) => ipcErrorWrapper(removeProfileItem)(id))
+  ipcMain.handle('getProfileHistory', (_e, id) => ipcErrorWrapper(getProfileHistory)(id))
+  ipcMain.handle('getProfileHistoryStr', (_e, id, version) =>
+    ipcErrorWrapper(getProfileHistoryStr)(id, version)
+  )
+  ipcMain.handle('restoreProfileHistory', (_e, id, version, pauseUpdate) =>
+    ipcErrorWrapper(restoreProfileHistory)(id, version, pauseUpdate)
+  )
+  ipcMain.handle('acceptProfileUpdate', (_e, id) => ipcErrorWrapper(acceptProfileUpdate)(id))
+  ipcMain.handle('discardProfileUpdate', (_e, id) => ipcErrorWrapper(discardProfileUpdate)(id))
+  ipcMain.handle('checkSubscriptionAlerts', ipcErrorWrapper(checkSubscriptionAlerts))
+  ipcMain.handle('setSchedules', (_e, schedules) => ipcErrorWrapper(setSchedules)(schedules))
+  ipcMain.handle('getScheduleNextRuns', (_e, count) => ipcErrorWrapper(getScheduleNextRuns)(count))
+  ipcMain.handle('runSchedule', (_e, id) => ipcErrorWrapper(runSchedule)(id))
+  ipcMain.handle('getScheduleLogs', ipcErrorWrapper(getScheduleLogs))
+  ipcMain.handle('clearScheduleLogs', ipcErrorWrapper(clearScheduleLogs))
+  ipcMain.handle('getNetworkInfo', ipcErrorWrapper(getNetworkInfo))
+  ipcMain.handle('setNetworkRules', (_e, rules) => ipcErrorWrapper(setNetworkRules)(rules))
+  ipcMain.handle('getJobs', ipcErrorWrapper(getJobs))
+  ipcMain.handle('getJobHistory', (_e, id) => ipcErrorWrapper(getJobHistory)(id))
+  ipcMain.handle('runJob', (_e, id) => ipcErrorWrapper(runJob)(id))
+  ipcMain.handle('pauseJob', (_e, id) => ipcErrorWrapper(pauseJob)(id))
+  ipcMain.handle('resumeJob', (_e, id) => ipcErrorWrapper(resumeJob)(id))
+  ipcMain.handle('initGeoUpdater', ipcErrorWrapper(initGeoUpdater))
   ipcMain.handle('addProfileUpdater', (_e, item) => ipcErrorWrapper(addProfileUpdater)(item))
   ipcMain.handle('getOverrideConfig', (_e, force) => ipcErrorWrapper(getOverrideConfig)(force))
   ipcMain.handle('setOverrideConfig', (_e, config) => ipcErrorWrapper(setOverrideConfig)(config))
@@ -196,6 +253,9 @@ export function registerIpcMainHandlers(): void {
   ipcMain.handle('getOverride', (_e, id, ext) => ipcErrorWrapper(getOverride)(id, ext))
   ipcMain.handle('setOverride', (_e, id, ext, str) => ipcErrorWrapper(setOverride)(id, ext, str))
   ipcMain.handle('restartCore', ipcErrorWrapper(restartCore))
+  ipcMain.handle('previewOverridePipeline', (_e, id) =>
+    ipcErrorWrapper(previewOverridePipeline)(id)
+  )
   ipcMain.handle('startMonitor', (_e, detached) => ipcErrorWrapper(startMonitor)(detached))
   ipcMain.handle('triggerSysProxy', (_e, enable) => ipcErrorWrapper(triggerSysProxy)(enable))
   ipcMain.handle('manualGrantCorePermition', () => ipcErrorWrapper(manualGrantCorePermition)())
@@ -213,6 +273,9 @@ export function registerIpcMainHandlers(): void {
   ipcMain.handle('readTextFile', (_e, filePath) => ipcErrorWrapper(readTextFile)(filePath))
   ipcMain.handle('getRuntimeConfigStr', ipcErrorWrapper(getRuntimeConfigStr))
   ipcMain.handle('getRuntimeConfig', ipcErrorWrapper(getRuntimeConfig))
+  ipcMain.handle('getConfigPolicyExplain', ipcErrorWrapper(getConfigPolicyExplain))
+  ipcMain.handle('getRuntimeProvenance', ipcErrorWrapper(getRuntimeProvenance))
+  ipcMain.handle('getOverrideStatus', ipcErrorWrapper(getOverrideStatus))
   ipcMain.handle('downloadAndInstallUpdate', (_e, version) =>
     ipcErrorWrapper(downloadAndInstallUpdate)(version)
   )
@@ -226,6 +289,7 @@ export function registerIpcMainHandlers(): void {
   ipcMain.handle('webdavRestore', (_e, filename) => ipcErrorWrapper(webdavRestore)(filename))
   ipcMain.handle('listWebdavBackups', ipcErrorWrapper(listWebdavBackups))
   ipcMain.handle('webdavDelete', (_e, filename) => ipcErrorWrapper(webdavDelete)(filename))
+  ipcMain.handle('setWebdavBackupCron', (_e, cron) => ipcErrorWrapper(setWebdavBackupCron)(cron))
   ipcMain.handle('registerShortcut', (_e, oldShortcut, newShortcut, action) =>
     ipcErrorWrapper(registerShortcut)(oldShortcut, newShortcut, action)
   )
@@ -235,6 +299,7 @@ export function registerIpcMainHandlers(): void {
   ipcMain.handle('stopSubStoreFrontendServer', () => ipcErrorWrapper(stopSubStoreFrontendServer)())
   ipcMain.handle('startSubStoreBackendServer', () => ipcErrorWrapper(startSubStoreBackendServer)())
   ipcMain.handle('stopSubStoreBackendServer', () => ipcErrorWrapper(stopSubStoreBackendServer)())
+  ipcMain.handle('initSubStoreJobs', ipcErrorWrapper(initSubStoreJobs))
   ipcMain.handle('downloadSubStore', () => ipcErrorWrapper(downloadSubStore)())
   ipcMain.handle('subStorePort', () => subStorePort)
   ipcMain.handle('subStoreFrontendPort', () => subStoreFrontendPort)
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import yaml from 'yaml'
+import { renderOverrideTemplate, resolveOverrideArgs } from './overrideArgs'
+
+describe('resolveOverrideArgs', () => {
+  const item = {
+    params: [
+      { key: 'region', type: 'string', default: 'HK' },
+      { key: 'port', type: 'number', default: 7890 },
+      { key: 'ipv6', type: 'boolean' }
+    ]
+  } as IOverrideItem
+
+  it('coerces values and falls back to defaults', () => {
+    expect(resolveOverrideArgs(item, { port: '1080', ipv6: 'true', unknown: 'x' })).toEqual({
+      region: 'HK',
+      port: 1080,
+      ipv6: true
+    })
+  })
+})
+
+describe('renderOverrideTemplate', () => {
+  it('inserts values as yaml scalars', () => {
+    const content = 'mixed-port: {{ port }}\nipv6: {{ipv6}}\nname: {{ region }}\n'
+    expect(
+      yaml.parse(renderOverrideTemplate(content, { port: 1080, ipv6: false, region: 'HK' }))
+    ).toEqual({ 'mixed-port': 1080, ipv6: false, name: 'HK' })
+  })
+
+  it('quotes strings containing yaml syntax', () => {
+    const value = 'key: value\n- item # comment'
+    const content = 'proxy-groups:\n  - name: {{ name }}\n    type: select\n'
+    expect(yaml.parse(renderOverrideTemplate(content, { name: value }))).toEqual({
+      'proxy-groups': [{ name: value, type: 'select' }]
+    })
+  })
+
+  it('inserts values inside existing scalars', () => {
+    const content = [
+      'proxy-groups:',
+      '  - name: "{{ region }} Auto"',
+      '    filter: "(?i){{ region }}"',
+      "    url: 'http://{{ host }}/generate_204'",
+      '    icon: https://{{ host }}/{{ region }}.png',
+      '    proxies: [{{ region }}, DIRECT]'
+    ].join('\n')
+    expect(
+      yaml.parse(renderOverrideTemplate(content, { region: 'H"K', host: "it's.example.com" }))
+    ).toEqual({
+      'proxy-groups': [
+        {
+          name: 'H"K Auto',
+          filter: '(?i)H"K',
+          url: "http://it's.example.com/generate_204",
+          icon: 'https://it\'s.example.com/H"K.png',
+          proxies: ['H"K', 'DIRECT']
+        }
+      ]
+    })
+  })
+
+  it('keeps unknown variables', () => {
+    expect(renderOverrideTemplate('name: {{ missing }}', {})).toBe('name: {{ missing }}')
+  })
+})
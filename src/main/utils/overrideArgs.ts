@@ -0,0 +1,71 @@
+function coerce(type: OverrideParamType, value: unknown): OverrideArgValue | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  switch (type) {
+    case 'number': {
+      const num = Number(value)
+      return Number.isFinite(num) ? num : undefined
+    }
+    case 'boolean':
+      return value === true || value === 'true'
+    default:
+      return String(value)
+  }
+}
+
+// 按覆写声明的参数合并默认值和订阅提供的取值，未声明的参数会被忽略
+export function resolveOverrideArgs(
+  item: IOverrideItem | undefined,
+  values: Record<string, OverrideArgValue> = {}
+): Record<string, OverrideArgValue> {
+  const args: Record<string, OverrideArgValue> = {}
+  for (const param of item?.params ?? []) {
+    const value = coerce(param.type, values[param.key]) ?? coerce(param.type, param.default)
+    if (value !== undefined) args[param.key] = value
+  }
+  return args
+}
+
+// 判断行内位置所处的引号，只有出现在值的开头时引号才表示带引号的标量
+function quoteAt(line: string): '"' | "'" | undefined {
+  let quote: '"' | "'" | undefined
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quote === '"') {
+      if (char === '\\') i++
+      else if (char === '"') quote = undefined
+    } else if (quote === "'") {
+      if (char === "'") quote = undefined
+    } else if ((char === '"' || char === "'") && /(^|[\s[{,])$/.test(line.slice(0, i))) {
+      quote = char
+    }
+  }
+  return quote
+}
+
+function renderValue(value: OverrideArgValue, before: string, after: string): string {
+  const quote = quoteAt(before)
+  // 在已有的引号标量中按引号类型转义
+  if (quote === '"') return JSON.stringify(String(value)).slice(1, -1)
+  if (quote === "'") return String(value).replace(/'/g, "''")
+  // 单独作为值时以 JSON 格式写入，即 YAML 的双引号标量，避免取值中的冒号、换行等破坏结构
+  if (/(^|[:\-[{,])\s*$/.test(before) && /^\s*([,\]}]|#|$)/.test(after)) {
+    return JSON.stringify(value)
+  }
+  // 作为普通标量的一部分时原样插入
+  return String(value)
+}
+
+// 替换 YAML 覆写中的 {{ key }} 模板变量，未提供取值的变量保持原样
+export function renderOverrideTemplate(
+  content: string,
+  args: Record<string, OverrideArgValue>
+): string {
+  return content.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (match, key: string, offset: number) => {
+    if (!(key in args)) return match
+    const lineStart = content.lastIndexOf('\n', offset - 1) + 1
+    const lineEnd = content.indexOf('\n', offset)
+    const before = content.slice(lineStart, offset)
+    const after = content.slice(offset + match.length, lineEnd === -1 ? undefined : lineEnd)
+    return renderValue(args[key], before, after)
+  })
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import yaml from 'yaml'
+import { diffProfile, isEmptyDiff } from './profileDiff'
+
+function profile(config: Record<string, unknown>): string {
+  return yaml.stringify(config)
+}
+
+const hk = { name: 'HK 01', type: 'ss', server: 'hk.example.com', port: 443 }
+const us = { name: 'US 01', type: 'ss', server: 'us.example.com', port: 443 }
+const jp = { name: 'JP 01', type: 'ss', server: 'jp.example.com', port: 443 }
+
+describe('diffProfile', () => {
+  it('detects added, removed and renamed proxies', () => {
+    const diff = diffProfile(
+      profile({ proxies: [hk, us] }),
+      profile({ proxies: [{ ...hk, name: 'Hong Kong 01' }, jp] })
+    )
+    expect(diff.proxies).toEqual({
+      added: ['JP 01'],
+      removed: ['US 01'],
+      renamed: [['HK 01', 'Hong Kong 01']]
+    })
+  })
+
+  it('treats a renamed proxy with changed settings as removed and added', () => {
+    const diff = diffProfile(
+      profile({ proxies: [hk] }),
+      profile({ proxies: [{ ...hk, name: 'Hong Kong 01', port: 8443 }] })
+    )
+    expect(diff.proxies).toEqual({ added: ['Hong Kong 01'], removed: ['HK 01'], renamed: [] })
+  })
+
+  it('compares group members by renamed proxy names', () => {
+    const diff = diffProfile(
+      profile({
+        proxies: [hk, us],
+        'proxy-groups': [
+          { name: 'PROXY', type: 'select', proxies: ['HK 01', 'US 01'] },
+          { name: 'Auto', type: 'url-test', proxies: ['HK 01'] }
+        ]
+      }),
+      profile({
+        proxies: [{ ...hk, name: 'Hong Kong 01' }, us],
+        'proxy-groups': [
+          { name: 'Select', type: 'select', proxies: ['Hong Kong 01', 'US 01'] },
+          { name: 'Fallback', type: 'fallback', proxies: ['US 01'] }
+        ]
+      })
+    )
+    expect(diff.groups).toEqual({
+      added: ['Fallback'],
+      removed: ['Auto'],
+      renamed: [['PROXY', 'Select']]
+    })
+  })
+
+  it('counts rules per target with renamed groups', () => {
+    const diff = diffProfile(
+      profile({
+        proxies: [hk],
+        'proxy-groups': [{ name: 'PROXY', type: 'select', proxies: ['HK 01'] }],
+        rules: [
+          'DOMAIN-SUFFIX,google.com,PROXY',
+          'IP-CIDR,10.0.0.0/8,DIRECT,no-resolve',
+          'GEOIP,CN,DIRECT',
+          'MATCH,PROXY'
+        ]
+      }),
+      profile({
+        proxies: [hk],
+        'proxy-groups': [{ name: 'Select', type: 'select', proxies: ['HK 01'] }],
+        rules: [
+          'DOMAIN-SUFFIX,google.com,Select',
+          'AND,((NETWORK,UDP),(DST-PORT,443)),REJECT',
+          'IP-CIDR,10.0.0.0/8,DIRECT,no-resolve',
+          'MATCH,Select'
+        ]
+      })
+    )
+    expect(diff.rules).toEqual([
+      { target: 'DIRECT', before: 2, after: 1 },
+      { target: 'REJECT', before: 0, after: 1 }
+    ])
+  })
+
+  it('returns an empty diff for equal profiles', () => {
+    const content = profile({
+      proxies: [hk, us],
+      'proxy-groups': [{ name: 'PROXY', type: 'select', proxies: ['HK 01', 'US 01'] }],
+      rules: ['MATCH,PROXY']
+    })
+    expect(isEmptyDiff(diffProfile(content, content))).toBe(true)
+    expect(isEmptyDiff(diffProfile(content, 'not: [valid'))).toBe(false)
+  })
+})
@@ -0,0 +1,139 @@
+import yaml from 'yaml'
+
+type NamedConfig = { name: string } & Record<string, unknown>
+
+function parseConfig(content: string): Partial<IMihomoConfig> {
+  try {
+    // 替换 防止错误使用科学记数法解析
+    const patched = content.replace(/(\w+:\s*)(\d+E\d+)(\s|$)/gi, '$1"$2"$3')
+    const result = yaml.parse(patched, { merge: true })
+    return result && typeof result === 'object' ? result : {}
+  } catch {
+    return {}
+  }
+}
+
+function namedList(list: unknown): NamedConfig[] {
+  if (!Array.isArray(list)) return []
+  return list.filter((i) => i && typeof i === 'object' && typeof i.name === 'string')
+}
+
+// 比较内容时忽略名称
+function withoutName(item: NamedConfig): Record<string, unknown> {
+  const rest: Record<string, unknown> = { ...item }
+  delete rest.name
+  return rest
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`)
+      .join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+// 名称之外的配置完全一致视为重命名
+function diffNamed(
+  before: NamedConfig[],
+  after: NamedConfig[],
+  fingerprint: (item: NamedConfig) => string
+): IProfileDiffSection {
+  const beforeNames = new Set(before.map((i) => i.name))
+  const afterNames = new Set(after.map((i) => i.name))
+  const removed = before.filter((i) => !afterNames.has(i.name))
+  const added = after.filter((i) => !beforeNames.has(i.name))
+  const renamed: [string, string][] = []
+  const addedByPrint = new Map<string, NamedConfig[]>()
+  for (const item of added) {
+    const key = fingerprint(item)
+    addedByPrint.set(key, [...(addedByPrint.get(key) || []), item])
+  }
+  const renamedTo = new Set<string>()
+  const renamedFrom = new Set<string>()
+  for (const item of removed) {
+    const match = addedByPrint.get(fingerprint(item))?.shift()
+    if (match) {
+      renamed.push([item.name, match.name])
+      renamedFrom.add(item.name)
+      renamedTo.add(match.name)
+    }
+  }
+  return {
+    added: added.filter((i) => !renamedTo.has(i.name)).map((i) => i.name),
+    removed: removed.filter((i) => !renamedFrom.has(i.name)).map((i) => i.name),
+    renamed
+  }
+}
+
+function ruleTarget(rule: unknown): string | undefined {
+  if (typeof rule !== 'string') return undefined
+  const parts = rule
+    .split(',')
+    .map((p) => p.trim())
+    .filter((p) => p && p !== 'no-resolve' && p !== 'src')
+  if (parts.length < 2) return undefined
+  return parts[parts.length - 1]
+}
+
+function countRules(rules: unknown): Record<string, number> {
+  const counts: Record<string, number> = {}
+  if (!Array.isArray(rules)) return counts
+  for (const rule of rules) {
+    const target = ruleTarget(rule)
+    if (target) counts[target] = (counts[target] || 0) + 1
+  }
+  return counts
+}
+
+export function diffProfile(before: string, after: string): IProfileDiff {
+  const oldConfig = parseConfig(before)
+  const newConfig = parseConfig(after)
+
+  const proxies = diffNamed(
+    namedList(oldConfig.proxies),
+    namedList(newConfig.proxies),
+    (item) => stableStringify(withoutName(item))
+  )
+  // 代理组的成员按重命名后的节点名称比较
+  const proxyRename = new Map(proxies.renamed)
+  const groups = diffNamed(
+    namedList(oldConfig['proxy-groups']),
+    namedList(newConfig['proxy-groups']),
+    (item) => {
+      const rest = withoutName(item)
+      const members = Array.isArray(rest.proxies)
+        ? rest.proxies.map((p) => proxyRename.get(p) ?? p)
+        : rest.proxies
+      return stableStringify({ ...rest, proxies: members })
+    }
+  )
+
+  // 规则目标按重命名后的代理组名称统计
+  const groupRename = new Map(groups.renamed)
+  const oldRules: Record<string, number> = {}
+  for (const [target, count] of Object.entries(countRules(oldConfig.rules))) {
+    const name = groupRename.get(target) ?? target
+    oldRules[name] = (oldRules[name] || 0) + count
+  }
+  const newRules = countRules(newConfig.rules)
+  const rules: IProfileDiffRule[] = []
+  for (const target of new Set([...Object.keys(oldRules), ...Object.keys(newRules)])) {
+    const beforeCount = oldRules[target] || 0
+    const afterCount = newRules[target] || 0
+    if (beforeCount !== afterCount) {
+      rules.push({ target, before: beforeCount, after: afterCount })
+    }
+  }
+
+  return { time: Date.now(), proxies, groups, rules }
+}
+
+export function isEmptyDiff(diff: IProfileDiff): boolean {
+  const emptySection = (s: IProfileDiffSection): boolean =>
+    s.added.length === 0 && s.removed.length === 0 && s.renamed.length === 0
+  return emptySection(diff.proxies) && emptySection(diff.groups) && diff.rules.length === 0
+}
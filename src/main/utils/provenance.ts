@@ -0,0 +1,57 @@
+import { keyedSections } from '../../shared/provenance'
+
+// 展开为路径和序列化后的值，对象逐层展开，其余数组视为单个值
+function snapshot(profile: IMihomoConfig): Map<string, string> {
+  const result = new Map<string, string>()
+  const walk = (value: unknown, path: string[]): void => {
+    if (value === undefined) return
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const entries = Object.entries(value)
+      if (entries.length > 0) {
+        for (const [key, child] of entries) walk(child, [...path, key])
+        return
+      }
+    }
+    result.set(JSON.stringify(path), JSON.stringify(value))
+  }
+  for (const [key, value] of Object.entries(profile ?? {})) {
+    const identify = keyedSections[key]
+    if (identify && Array.isArray(value)) {
+      value.forEach((item, index) => {
+        result.set(JSON.stringify([key, identify(item, index)]), JSON.stringify(item))
+      })
+    } else {
+      walk(value, [key])
+    }
+  }
+  return result
+}
+
+// 依次记录每一层处理后的配置，比较前后差异得到每个值的来源
+export function createProvenanceTracker(): {
+  record: (layer: IConfigLayer, profile: IMihomoConfig) => void
+  result: () => IConfigProvenance
+} {
+  const layers: IConfigLayer[] = []
+  const paths: Record<string, number[]> = {}
+  let previous = new Map<string, string>()
+
+  const record = (layer: IConfigLayer, profile: IMihomoConfig): void => {
+    const index = layers.push(layer) - 1
+    const current = snapshot(profile)
+    for (const [path, value] of current) {
+      if (!previous.has(path)) {
+        // 被删除后重新出现的值视为由当前层引入
+        paths[path] = [index]
+      } else if (previous.get(path) !== value) {
+        paths[path].push(index)
+      }
+    }
+    for (const path of previous.keys()) {
+      if (!current.has(path)) delete paths[path]
+    }
+    previous = current
+  }
+
+  return { record, result: () => ({ layers, paths }) }
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from 'vitest'
+import { getProfile } from '../config'
+import { applyProxyFilter, previewProxyFilter } from './proxyFilter'
+
+vi.mock('../config', () => ({ getProfile: vi.fn() }))
+
+function profile(config: Record<string, unknown>): IMihomoConfig {
+  return config as unknown as IMihomoConfig
+}
+
+const proxies = [
+  { name: 'HK 01', type: 'ss' },
+  { name: 'US 01', type: 'ss' },
+  { name: 'Expire: 2030-01-01', type: 'ss' }
+]
+
+describe('applyProxyFilter', () => {
+  it('returns the profile unchanged without a filter', () => {
+    const config = profile({ proxies, rules: ['MATCH,HK 01'] })
+    expect(applyProxyFilter(config, {})).toBe(config)
+  })
+
+  it('renames and removes proxies in groups', () => {
+    const result = applyProxyFilter(
+      profile({
+        proxies,
+        'proxy-groups': [
+          { name: 'PROXY', type: 'select', proxies: ['HK 01', 'US 01', 'Expire: 2030-01-01'] },
+          { name: 'INFO', type: 'select', proxies: ['Expire: 2030-01-01'] }
+        ]
+      }),
+      { exclude: 'Expire', rename: [{ pattern: '^HK', replace: 'Hong Kong' }] }
+    )
+    expect(result.proxies).toEqual([
+      { name: 'Hong Kong 01', type: 'ss' },
+      { name: 'US 01', type: 'ss' }
+    ])
+    expect(result['proxy-groups']).toEqual([
+      { name: 'PROXY', type: 'select', proxies: ['Hong Kong 01', 'US 01'] },
+      { name: 'INFO', type: 'select', proxies: ['DIRECT'] }
+    ])
+  })
+
+  it('updates rule targets and drops rules of removed proxies', () => {
+    const result = applyProxyFilter(
+      profile({
+        proxies,
+        rules: [
+          'DOMAIN-SUFFIX,hk.example.com,HK 01,no-resolve',
+          'AND,((NETWORK,UDP),(DST-PORT,443)),HK 01',
+          'DOMAIN,expire.example.com,Expire: 2030-01-01',
+          'SUB-RULE,(NETWORK,TCP),HK 01',
+          'GEOIP,CN,DIRECT',
+          'MATCH,US 01'
+        ],
+        'sub-rules': { 'HK 01': ['DOMAIN,a.example.com,HK 01', 'MATCH,Expire: 2030-01-01'] }
+      }),
+      { exclude: 'Expire', rename: [{ pattern: '^HK', replace: 'Hong Kong' }] }
+    )
+    expect(result.rules).toEqual([
+      'DOMAIN-SUFFIX,hk.example.com,Hong Kong 01,no-resolve',
+      'AND,((NETWORK,UDP),(DST-PORT,443)),Hong Kong 01',
+      'SUB-RULE,(NETWORK,TCP),HK 01',
+      'GEOIP,CN,DIRECT',
+      'MATCH,US 01'
+    ])
+    expect(result['sub-rules']).toEqual({ 'HK 01': ['DOMAIN,a.example.com,Hong Kong 01'] })
+  })
+
+  it('renames dialer-proxy and relay members', () => {
+    const result = applyProxyFilter(
+      profile({
+        proxies: [...proxies.slice(0, 2), { name: 'Chain', type: 'ss', 'dialer-proxy': 'HK 01' }],
+        'proxy-groups': [{ name: 'Relay', type: 'relay', proxies: ['HK 01', 'US 01'] }]
+      }),
+      { rename: [{ pattern: '^HK', replace: 'Hong Kong' }] }
+    )
+    expect(result.proxies).toContainEqual({
+      name: 'Chain',
+      type: 'ss',
+      'dialer-proxy': 'Hong Kong 01'
+    })
+    expect(result['proxy-groups']).toEqual([
+      { name: 'Relay', type: 'relay', proxies: ['Hong Kong 01', 'US 01'] }
+    ])
+  })
+
+  it('rejects removing a proxy used in a chain', () => {
+    const chained = profile({
+      proxies: [...proxies, { name: 'Chain', type: 'ss', 'dialer-proxy': 'HK 01' }]
+    })
+    expect(() => applyProxyFilter(chained, { exclude: '^HK' })).toThrow(
+      'Proxy filter removed "HK 01", which is used in the chain of "Chain"'
+    )
+    const relay = profile({
+      proxies,
+      'proxy-groups': [{ name: 'Relay', type: 'relay', proxies: ['HK 01', 'US 01'] }]
+    })
+    expect(() => applyProxyFilter(relay, { exclude: '^HK' })).toThrow(
+      'Proxy filter removed "HK 01", which is used in the chain of "Relay"'
+    )
+  })
+
+  it('rejects invalid regular expressions', () => {
+    expect(() => applyProxyFilter(profile({ proxies }), { exclude: '(?i)expire(' })).toThrow(
+      'Invalid regular expression: (?i)expire('
+    )
+    expect(() =>
+      applyProxyFilter(profile({ proxies }), { rename: [{ pattern: '[HK', replace: '' }] })
+    ).toThrow('Invalid regular expression: [HK')
+  })
+})
+
+describe('previewProxyFilter', () => {
+  it('lists filtered proxies and dropped rules', async () => {
+    vi.mocked(getProfile).mockResolvedValue(
+      profile({
+        proxies,
+        rules: ['DOMAIN,expire.example.com,Expire: 2030-01-01', 'MATCH,HK 01'],
+        'sub-rules': { sub: ['MATCH,Expire: 2030-01-01'] }
+      })
+    )
+    expect(await previewProxyFilter('id', { exclude: 'Expire' })).toEqual({
+      proxies: [
+        { original: 'HK 01', name: 'HK 01' },
+        { original: 'US 01', name: 'US 01' },
+        { original: 'Expire: 2030-01-01', name: undefined }
+      ],
+      droppedRules: ['DOMAIN,expire.example.com,Expire: 2030-01-01', 'MATCH,Expire: 2030-01-01']
+    })
+  })
+})
@@ -0,0 +1,174 @@
+import { getProfile } from '../config'
+import { compileFilterRegex } from '../../shared/proxyFilter'
+
+type Proxy = Record<string, unknown>
+type Group = Record<string, unknown>
+
+// 按顺序应用重命名规则，返回过滤后的节点名称映射，被过滤的节点映射为 undefined
+function mapProxyNames(names: string[], filter: IProxyFilter): Map<string, string | undefined> {
+  const include = compileFilterRegex(filter.include)
+  const exclude = compileFilterRegex(filter.exclude)
+  const rules = (filter.rename ?? [])
+    .map((rule) => ({ regex: compileFilterRegex(rule.pattern, 'gu'), replace: rule.replace ?? '' }))
+    .filter((rule) => rule.regex)
+  const result = new Map<string, string | undefined>()
+  const taken = new Set<string>()
+  for (const name of names) {
+    if ((include && !include.test(name)) || (exclude && exclude.test(name))) {
+      result.set(name, undefined)
+      continue
+    }
+    let renamed = name
+    for (const rule of rules) {
+      renamed = renamed.replace(rule.regex as RegExp, rule.replace)
+    }
+    renamed = renamed.trim() || name
+    // 重命名后出现重名时追加序号
+    let unique = renamed
+    for (let i = 2; taken.has(unique); i++) {
+      unique = `${renamed} ${i}`
+    }
+    taken.add(unique)
+    result.set(name, unique)
+  }
+  return result
+}
+
+export function isEmptyProxyFilter(filter: IProxyFilter | undefined): boolean {
+  return !filter?.include && !filter?.exclude && !filter?.rename?.some((rule) => rule.pattern)
+}
+
+// 规则按顶层逗号拆分, 逻辑规则的条件中包含括号内的逗号
+function splitRule(rule: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < rule.length; i++) {
+    if (rule[i] === '(') depth++
+    else if (rule[i] === ')') depth--
+    else if (rule[i] === ',' && depth === 0) {
+      parts.push(rule.slice(start, i))
+      start = i + 1
+    }
+  }
+  parts.push(rule.slice(start))
+  return parts
+}
+
+// 规则目标为被过滤的节点时返回 undefined
+function mapRule(rule: string, names: Map<string, string | undefined>): string | undefined {
+  if (typeof rule !== 'string') return rule
+  const parts = splitRule(rule)
+  const type = parts[0].trim().toUpperCase()
+  // SUB-RULE 的目标是子规则名称
+  if (type === 'SUB-RULE') return rule
+  const index = type === 'MATCH' ? 1 : 2
+  const target = parts[index]?.trim()
+  if (!target || !names.has(target)) return rule
+  const renamed = names.get(target)
+  if (renamed === undefined) return undefined
+  parts[index] = renamed
+  return parts.join(',')
+}
+
+function mapRules(
+  rules: unknown,
+  names: Map<string, string | undefined>,
+  dropped?: string[]
+): unknown {
+  if (!Array.isArray(rules)) return rules
+  return rules
+    .map((rule) => {
+      const mapped = mapRule(rule, names)
+      if (mapped === undefined) dropped?.push(rule)
+      return mapped
+    })
+    .filter((rule) => rule !== undefined)
+}
+
+export function applyProxyFilter(
+  profile: IMihomoConfig,
+  filter: IProxyFilter | undefined
+): IMihomoConfig {
+  if (!filter || isEmptyProxyFilter(filter) || !Array.isArray(profile.proxies)) return profile
+  const proxies = (profile.proxies as Proxy[]).filter((p) => p && typeof p.name === 'string')
+  const names = mapProxyNames(
+    proxies.map((p) => p.name as string),
+    filter
+  )
+  // 链式代理去掉其中一跳会改变出站路径, 直接报错由用户调整过滤条件
+  const chainTarget = (name: string, owner: string): string => {
+    if (!names.has(name)) return name
+    const renamed = names.get(name)
+    if (renamed === undefined) {
+      throw new Error(`Proxy filter removed "${name}", which is used in the chain of "${owner}"`)
+    }
+    return renamed
+  }
+  const groups = Array.isArray(profile['proxy-groups'])
+    ? (profile['proxy-groups'] as Group[]).map((group) => {
+        if (!Array.isArray(group.proxies)) return group
+        if (group.type === 'relay') {
+          return {
+            ...group,
+            proxies: (group.proxies as string[]).map((member) =>
+              chainTarget(member, group.name as string)
+            )
+          }
+        }
+        const members = (group.proxies as string[])
+          .filter((member) => !names.has(member) || names.get(member) !== undefined)
+          .map((member) => names.get(member) ?? member)
+        // 成员全部被过滤时保留 DIRECT，避免内核因空代理组启动失败
+        const empty =
+          members.length === 0 && group.proxies.length > 0 && !group.use && !group['include-all']
+        return { ...group, proxies: empty ? ['DIRECT'] : members }
+      })
+    : profile['proxy-groups']
+  const result = {
+    ...profile,
+    proxies: proxies
+      .filter((p) => names.get(p.name as string) !== undefined)
+      .map((p) => {
+        const proxy = { ...p, name: names.get(p.name as string) }
+        if (typeof p['dialer-proxy'] === 'string') {
+          proxy['dialer-proxy'] = chainTarget(p['dialer-proxy'], p.name as string)
+        }
+        return proxy
+      }) as [],
+    'proxy-groups': groups as []
+  }
+  // 指向被过滤节点的规则一并删除
+  if (Array.isArray(profile.rules)) {
+    result.rules = mapRules(profile.rules, names) as []
+  }
+  const subRules = profile['sub-rules']
+  if (subRules && typeof subRules === 'object') {
+    result['sub-rules'] = Object.fromEntries(
+      Object.entries(subRules).map(([key, rules]) => [key, mapRules(rules, names)])
+    )
+  }
+  return result
+}
+
+export async function previewProxyFilter(
+  id: string,
+  filter: IProxyFilter
+): Promise<IProxyFilterPreview> {
+  const profile = await getProfile(id)
+  const names = ((profile.proxies ?? []) as Proxy[])
+    .filter((p) => p && typeof p.name === 'string')
+    .map((p) => p.name as string)
+  const mapped = mapProxyNames(names, filter)
+  // 目标节点被过滤的规则会随之删除
+  const droppedRules: string[] = []
+  mapRules(profile.rules, mapped, droppedRules)
+  const subRules = profile['sub-rules']
+  if (subRules && typeof subRules === 'object') {
+    for (const rules of Object.values(subRules)) mapRules(rules, mapped, droppedRules)
+  }
+  return {
+    proxies: names.map((original) => ({ original, name: mapped.get(original) })),
+    droppedRules
+  }
+}
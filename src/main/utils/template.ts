@@ -18,9 +18,6 @@ export const defaultConfig: IAppConfig = {
   proxyDisplayOrder: 'default',
   autoCheckUpdate: true,
   autoCloseConnection: true,
-  useNameserverPolicy: false,
-  controlDns: true,
-  controlSniff: true,
   floatingWindowCompatMode: true,
   disableLoopbackDetector: false,
   disableEmbedCA: false,
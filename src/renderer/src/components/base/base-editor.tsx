@@ -1,9 +1,10 @@
 import { useEffect, useRef } from 'react'
 import * as monaco from 'monaco-editor'
-import MonacoEditor from 'react-monaco-editor'
+import MonacoEditor, { MonacoDiffEditor } from 'react-monaco-editor'
 import { configureMonacoYaml } from 'monaco-yaml'
 import metaSchema from 'meta-json-schema/schemas/meta-json-schema.json'
 import pac from 'types-pac/pac.d.ts?raw'
+import override from '../../../../shared/override.d.ts?raw'
 import { useTheme } from 'next-themes'
 import { nanoid } from 'nanoid'
 import React from 'react'
@@ -14,6 +15,7 @@ interface Props {
   readOnly?: boolean
   language: Language
   onChange?: (value: string) => void
+  onCursorChange?: (offset: number) => void
 }
 
 let initialized = false
@@ -81,15 +83,20 @@ const monacoInitialization = (): void => {
   })
   // configure PAC definition
   monaco.languages.typescript.javascriptDefaults.addExtraLib(pac, 'pac.d.ts')
+  // configure override script definition
+  monaco.languages.typescript.javascriptDefaults.addExtraLib(override, 'override.d.ts')
   initialized = true
 }
 
 export const BaseEditor: React.FC<Props> = (props) => {
   const { theme, systemTheme } = useTheme()
   const trueTheme = theme === 'system' ? systemTheme : theme
-  const { value, readOnly = false, language, onChange } = props
+  const { value, readOnly = false, language, onChange, onCursorChange } = props
 
   const editorRef = useRef<monaco.editor.IStandaloneCodeEditor>(undefined)
+  // 编辑器只在挂载时注册监听，通过 ref 获取最新的回调
+  const onCursorChangeRef = useRef(onCursorChange)
+  onCursorChangeRef.current = onCursorChange
 
   const editorWillMount = (): void => {
     monacoInitialization()
@@ -101,6 +108,9 @@ export const BaseEditor: React.FC<Props> = (props) => {
     const uri = monaco.Uri.parse(`${nanoid()}.${language === 'yaml' ? 'clash' : ''}.${language}`)
     const model = monaco.editor.createModel(value, language, uri)
     editorRef.current?.setModel(model)
+    editor.onDidChangeCursorPosition((e) => {
+      onCursorChangeRef.current?.(model.getOffsetAt(e.position))
+    })
   }
 
   useEffect(() => {
@@ -146,3 +156,37 @@ export const BaseEditor: React.FC<Props> = (props) => {
     />
   )
 }
+
+interface DiffProps {
+  original: string
+  value: string
+  language: Language
+}
+
+export const BaseDiffEditor: React.FC<DiffProps> = (props) => {
+  const { theme, systemTheme } = useTheme()
+  const trueTheme = theme === 'system' ? systemTheme : theme
+  const { original, value, language } = props
+
+  return (
+    <MonacoDiffEditor
+      language={language}
+      original={original}
+      value={value}
+      height="100%"
+      theme={trueTheme?.includes('light') ? 'vs' : 'vs-dark'}
+      options={{
+        readOnly: true,
+        originalEditable: false,
+        renderSideBySide: document.documentElement.clientWidth >= 1000, // 窗口较窄时使用行内对比
+        minimap: {
+          enabled: false
+        },
+        fontFamily: `Fira Code, JetBrains Mono, Roboto Mono, "Source Code Pro", Consolas, Menlo, Monaco, monospace, "Courier New", "Apple Color Emoji", "Noto Color Emoji"`,
+        fontLigatures: true,
+        smoothScrolling: true
+      }}
+      editorWillMount={monacoInitialization}
+    />
+  )
+}
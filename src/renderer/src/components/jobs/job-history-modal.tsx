@@ -0,0 +1,72 @@
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Chip,
+  Divider
+} from '@heroui/react'
+import React from 'react'
+import useSWR from 'swr'
+import { getJobHistory } from '@renderer/utils/ipc'
+import dayjs from '@renderer/utils/dayjs'
+import { useTranslation } from 'react-i18next'
+
+interface Props {
+  job: IJobInfo
+  onClose: () => void
+}
+
+const JobHistoryModal: React.FC<Props> = (props) => {
+  const { job, onClose } = props
+  const { t } = useTranslation()
+  const { data: history = [] } = useSWR(['getJobHistory', job.id, job.lastRun?.time], () =>
+    getJobHistory(job.id)
+  )
+
+  return (
+    <Modal
+      backdrop="blur"
+      classNames={{ backdrop: 'top-[48px]' }}
+      hideCloseButton
+      isOpen={true}
+      onOpenChange={onClose}
+      scrollBehavior="inside"
+    >
+      <ModalContent>
+        <ModalHeader className="flex app-drag">{job.name || t(`jobs.name.${job.id}`)}</ModalHeader>
+        <ModalBody>
+          {history.length === 0 && (
+            <div className="text-center text-foreground-500">{t('jobs.history.empty')}</div>
+          )}
+          {history.map((run, index) => (
+            <div key={`${run.time}-${index}`}>
+              <div className="flex justify-between items-center gap-2">
+                <span>{dayjs(run.time).format('YYYY-MM-DD HH:mm:ss')}</span>
+                <Chip size="sm" variant="flat" color={run.success ? 'success' : 'danger'}>
+                  {run.success ? t('jobs.success') : t('jobs.failed')}
+                </Chip>
+              </div>
+              <small className="text-foreground-500">
+                {t('jobs.history.duration', { duration: run.duration })}
+              </small>
+              {run.error && (
+                <small className="block break-all select-text text-danger">{run.error}</small>
+              )}
+              <Divider className="mt-2" />
+            </div>
+          ))}
+        </ModalBody>
+        <ModalFooter>
+          <Button size="sm" variant="light" onPress={onClose}>
+            {t('common.close')}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  )
+}
+
+export default JobHistoryModal
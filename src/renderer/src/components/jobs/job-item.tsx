@@ -0,0 +1,118 @@
+import React, { useState } from 'react'
+import { Button, Chip } from '@heroui/react'
+import { FaPause, FaPlay } from 'react-icons/fa6'
+import { IoMdInformationCircleOutline } from 'react-icons/io'
+import { VscDebugStart } from 'react-icons/vsc'
+import { pauseJob, resumeJob, runJob } from '@renderer/utils/ipc'
+import dayjs from '@renderer/utils/dayjs'
+import { useTranslation } from 'react-i18next'
+
+interface Props {
+  job: IJobInfo
+  onInspect: () => void
+  mutate: () => void
+}
+
+const JobItem: React.FC<Props> = (props) => {
+  const { job, onInspect, mutate } = props
+  const { t } = useTranslation()
+  const [loading, setLoading] = useState(false)
+  const { lastRun } = job
+
+  const onRun = async (): Promise<void> => {
+    setLoading(true)
+    try {
+      const result = await runJob(job.id)
+      if (!result.success) alert(result.error)
+    } catch (e) {
+      alert(e)
+    } finally {
+      setLoading(false)
+      mutate()
+    }
+  }
+
+  const onTogglePause = async (): Promise<void> => {
+    try {
+      if (job.paused) {
+        await resumeJob(job.id)
+      } else {
+        await pauseJob(job.id)
+      }
+    } catch (e) {
+      alert(e)
+    } finally {
+      mutate()
+    }
+  }
+
+  return (
+    <div className="flex justify-between items-center gap-2">
+      <div className="flex flex-col overflow-hidden">
+        <div className="flex items-center gap-1">
+          <span className="text-ellipsis whitespace-nowrap overflow-hidden">
+            {job.name || t(`jobs.name.${job.id}`)}
+          </span>
+          {job.running && (
+            <Chip size="sm" variant="flat" color="primary">
+              {t('jobs.running')}
+            </Chip>
+          )}
+          {job.paused && (
+            <Chip size="sm" variant="flat" color="warning">
+              {t('jobs.paused')}
+            </Chip>
+          )}
+          {lastRun && !job.running && (
+            <Chip size="sm" variant="flat" color={lastRun.success ? 'success' : 'danger'}>
+              {lastRun.success ? t('jobs.success') : t('jobs.failed')}
+            </Chip>
+          )}
+        </div>
+        <small className="text-foreground-500">
+          {job.cron || t('jobs.every', { interval: job.interval })}
+          {job.nextRun && ` · ${t('jobs.nextRun', { time: dayjs(job.nextRun).fromNow() })}`}
+        </small>
+        <small className="text-foreground-500">
+          {lastRun
+            ? t('jobs.lastRun', {
+                time: dayjs(lastRun.time).format('MM-DD HH:mm:ss'),
+                duration: lastRun.duration
+              })
+            : t('jobs.never')}
+        </small>
+        {lastRun?.error && (
+          <small className="text-danger text-ellipsis whitespace-nowrap overflow-hidden">
+            {lastRun.error}
+          </small>
+        )}
+      </div>
+      <div className="flex items-center gap-1 shrink-0">
+        <Button
+          isIconOnly
+          size="sm"
+          variant="light"
+          title={t('jobs.run')}
+          isLoading={loading || job.running}
+          onPress={onRun}
+        >
+          <VscDebugStart className="text-lg" />
+        </Button>
+        <Button
+          isIconOnly
+          size="sm"
+          variant="light"
+          title={job.paused ? t('jobs.resume') : t('jobs.pause')}
+          onPress={onTogglePause}
+        >
+          {job.paused ? <FaPlay /> : <FaPause />}
+        </Button>
+        <Button isIconOnly size="sm" variant="light" title={t('jobs.inspect')} onPress={onInspect}>
+          <IoMdInformationCircleOutline className="text-lg" />
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default JobItem
@@ -10,6 +10,7 @@ import {
 } from '@heroui/react'
 import React, { useState } from 'react'
 import SettingItem from '../base/base-setting-item'
+import ParamsEditor from './params-editor'
 import { restartCore } from '@renderer/utils/ipc'
 import { useTranslation } from 'react-i18next'
 
@@ -24,7 +25,17 @@ const EditInfoModal: React.FC<Props> = (props) => {
   const { t } = useTranslation()
 
   const onSave = async (): Promise<void> => {
-    await updateOverrideItem(values)
+    const params = values.params
+      ?.filter((param) => param.key.trim())
+      .map((param) => ({
+        ...param,
+        key: param.key.trim(),
+        default:
+          param.type === 'number' && param.default !== undefined
+            ? Number(param.default)
+            : param.default
+      }))
+    await updateOverrideItem({ ...values, params: params?.length ? params : undefined })
     await restartCore()
     onClose()
   }
@@ -72,6 +83,11 @@ const EditInfoModal: React.FC<Props> = (props) => {
               }}
             />
           </SettingItem>
+          <ParamsEditor
+            ext={values.ext}
+            params={values.params ?? []}
+            onChange={(params) => setValues({ ...values, params })}
+          />
         </ModalBody>
         <ModalFooter>
           <Button size="sm" variant="light" onPress={onClose}>
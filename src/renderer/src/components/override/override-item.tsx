@@ -6,7 +6,8 @@ import {
   Dropdown,
   DropdownItem,
   DropdownMenu,
-  DropdownTrigger
+  DropdownTrigger,
+  Switch
 } from '@heroui/react'
 import { IoMdMore, IoMdRefresh } from 'react-icons/io'
 import dayjs from '@renderer/utils/dayjs'
@@ -21,6 +22,7 @@ import { useTranslation } from 'react-i18next'
 
 interface Props {
   info: IOverrideItem
+  status?: IOverrideRunStatus
   addOverrideItem: (item: Partial<IOverrideItem>) => Promise<void>
   updateOverrideItem: (item: IOverrideItem) => Promise<void>
   removeOverrideItem: (id: string) => Promise<void>
@@ -37,8 +39,14 @@ interface MenuItem {
 
 const OverrideItem: React.FC<Props> = (props) => {
   const { t } = useTranslation()
-  const { info, addOverrideItem, removeOverrideItem, mutateOverrideConfig, updateOverrideItem } =
-    props
+  const {
+    info,
+    status,
+    addOverrideItem,
+    removeOverrideItem,
+    mutateOverrideConfig,
+    updateOverrideItem
+  } = props
   const [updating, setUpdating] = useState(false)
   const [openInfoEditor, setOpenInfoEditor] = useState(false)
   const [openFileEditor, setOpenFileEditor] = useState(false)
@@ -160,7 +168,7 @@ const OverrideItem: React.FC<Props> = (props) => {
       <Card
         as="div"
         fullWidth
-        className="cursor-pointer"
+        className={`cursor-pointer ${info.enabled === false ? 'opacity-60' : ''}`}
         onContextMenu={handleContextMenu}
         onDoubleClick={(e) => {
           if ((e.target as Element)?.closest('button, [role="menu"], [role="menuitem"]')) {
@@ -183,7 +191,21 @@ const OverrideItem: React.FC<Props> = (props) => {
               >
                 {info?.name}
               </h3>
-              <div className="flex">
+              <div className="flex items-center">
+                <Switch
+                  size="sm"
+                  className="mr-1"
+                  title={t('override.labels.enabled')}
+                  isSelected={info.enabled !== false}
+                  onValueChange={async (v) => {
+                    try {
+                      await updateOverrideItem({ ...info, enabled: v })
+                      await restartCore()
+                    } catch (e) {
+                      alert(e)
+                    }
+                  }}
+                />
                 {info.type === 'remote' && (
                   <Button
                     isIconOnly
@@ -244,6 +266,18 @@ const OverrideItem: React.FC<Props> = (props) => {
                 <Chip size="sm" variant="bordered">
                   {info.ext === 'yaml' ? 'YAML' : 'JavaScript'}
                 </Chip>
+                {info.ext === 'js' && status && status.status !== 'success' && (
+                  <Chip
+                    size="sm"
+                    variant="flat"
+                    color={status.status === 'timeout' ? 'warning' : 'danger'}
+                    className="ml-2 cursor-pointer"
+                    title={status.message}
+                    onClick={() => setOpenLog(true)}
+                  >
+                    {t(`override.status.${status.status}`)}
+                  </Chip>
+                )}
               </div>
               {info.type === 'remote' && (
                 <div className={`mt-2 flex justify-end`}>
@@ -0,0 +1,112 @@
+import { Button, Input, Select, SelectItem, Switch } from '@heroui/react'
+import React from 'react'
+import SettingItem from '../base/base-setting-item'
+import { MdDeleteForever } from 'react-icons/md'
+import { FaPlus } from 'react-icons/fa6'
+import { useTranslation } from 'react-i18next'
+
+interface Props {
+  ext: 'js' | 'yaml'
+  params: IOverrideParam[]
+  onChange: (params: IOverrideParam[]) => void
+}
+
+const paramTypes: OverrideParamType[] = ['string', 'number', 'boolean']
+
+const ParamsEditor: React.FC<Props> = (props) => {
+  const { ext, params, onChange } = props
+  const { t } = useTranslation()
+
+  const update = (index: number, param: IOverrideParam): void => {
+    const newParams = Array.from(params)
+    newParams[index] = param
+    onChange(newParams)
+  }
+
+  return (
+    <>
+      <SettingItem title={t('override.params.title')}>
+        <Button
+          size="sm"
+          variant="flat"
+          color="default"
+          onPress={() => onChange([...params, { key: '', type: 'string' }])}
+        >
+          <FaPlus />
+        </Button>
+      </SettingItem>
+      {params.map((param, index) => (
+        <div className="flex flex-col gap-1" key={index}>
+          <div className="flex gap-2">
+            <Input
+              size="sm"
+              className="w-[35%]"
+              value={param.key}
+              isInvalid={!!param.key && !/^[\w-]+$/.test(param.key)}
+              placeholder={t('override.params.key')}
+              onValueChange={(v) => update(index, { ...param, key: v })}
+            />
+            <Select
+              size="sm"
+              className="w-[30%]"
+              aria-label={t('override.params.type')}
+              selectedKeys={[param.type]}
+              disallowEmptySelection
+              onSelectionChange={(keys) =>
+                update(index, {
+                  ...param,
+                  type: keys.currentKey as OverrideParamType,
+                  default: undefined
+                })
+              }
+            >
+              {paramTypes.map((type) => (
+                <SelectItem key={type}>{t(`override.params.types.${type}`)}</SelectItem>
+              ))}
+            </Select>
+            {param.type === 'boolean' ? (
+              <div className="flex items-center grow">
+                <Switch
+                  size="sm"
+                  isSelected={param.default === true}
+                  onValueChange={(v) => update(index, { ...param, default: v })}
+                />
+              </div>
+            ) : (
+              <Input
+                size="sm"
+                type={param.type === 'number' ? 'number' : 'text'}
+                value={param.default?.toString() ?? ''}
+                placeholder={t('override.params.default')}
+                onValueChange={(v) => update(index, { ...param, default: v || undefined })}
+              />
+            )}
+            <Button
+              color="warning"
+              variant="flat"
+              size="sm"
+              onPress={() => onChange(params.filter((_, i) => i !== index))}
+            >
+              <MdDeleteForever className="text-lg" />
+            </Button>
+          </div>
+          <Input
+            size="sm"
+            value={param.description ?? ''}
+            placeholder={t('override.params.description')}
+            onValueChange={(v) => update(index, { ...param, description: v || undefined })}
+          />
+        </div>
+      ))}
+      {params.length > 0 && (
+        <small className="text-foreground-500">
+          {ext === 'js'
+            ? t('override.params.jsUsage')
+            : t('override.params.yamlUsage', { example: '{{ region }}' })}
+        </small>
+      )}
+    </>
+  )
+}
+
+export default ParamsEditor
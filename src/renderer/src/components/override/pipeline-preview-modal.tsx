@@ -0,0 +1,157 @@
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Chip,
+  Listbox,
+  ListboxItem,
+  Spinner
+} from '@heroui/react'
+import React, { useEffect, useState } from 'react'
+import { BaseDiffEditor } from '../base/base-editor'
+import { previewOverridePipeline } from '@renderer/utils/ipc'
+import { useTranslation } from 'react-i18next'
+
+interface Props {
+  // 未指定时预览当前订阅
+  id?: string
+  onClose: () => void
+}
+
+// 脚本执行失败时的日志级别
+function isErrorLog(log: string): boolean {
+  return log.startsWith('[exception]') || log.startsWith('[timeout]')
+}
+
+const PipelinePreviewModal: React.FC<Props> = (props) => {
+  const { id, onClose } = props
+  const { t } = useTranslation()
+  const [preview, setPreview] = useState<IOverridePreview>()
+  const [selected, setSelected] = useState(0)
+  const [running, setRunning] = useState(false)
+
+  const run = async (): Promise<void> => {
+    setRunning(true)
+    try {
+      const result = await previewOverridePipeline(id)
+      setPreview(result)
+      setSelected(Math.min(selected, Math.max(result.steps.length - 1, 0)))
+    } catch (e) {
+      alert(e)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  useEffect(() => {
+    run()
+  }, [])
+
+  const steps = preview?.steps ?? []
+  const step = steps[selected]
+  const failed = (s: IOverridePreviewStep): boolean => s.logs.some(isErrorLog)
+
+  return (
+    <Modal
+      backdrop="blur"
+      classNames={{ backdrop: 'top-[48px]' }}
+      size="5xl"
+      hideCloseButton
+      isOpen={true}
+      onOpenChange={onClose}
+      scrollBehavior="inside"
+    >
+      <ModalContent className="h-full w-[calc(100%-100px)]">
+        <ModalHeader className="flex pb-0 app-drag">{t('override.preview.title')}</ModalHeader>
+        <ModalBody className="h-full flex flex-row gap-2">
+          {running && !preview ? (
+            <div className="w-full h-full flex items-center justify-center">
+              <Spinner />
+            </div>
+          ) : (
+            <>
+              <div className="w-[240px] h-full overflow-y-auto shrink-0">
+                <Listbox
+                  aria-label={t('override.preview.title')}
+                  selectionMode="single"
+                  disallowEmptySelection
+                  selectedKeys={[selected.toString()]}
+                  onAction={(key) => setSelected(Number(key))}
+                >
+                  {steps.map((s, index) => (
+                    <ListboxItem
+                      key={index.toString()}
+                      textValue={s.layer.name || s.layer.type}
+                      endContent={
+                        <Chip size="sm" variant="flat" color={failed(s) ? 'danger' : 'default'}>
+                          {s.duration}ms
+                        </Chip>
+                      }
+                    >
+                      <span className="break-all whitespace-normal">
+                        {t(`sider.cards.configLayer.${s.layer.type}`, {
+                          name: s.layer.name || s.layer.id
+                        })}
+                      </span>
+                    </ListboxItem>
+                  ))}
+                </Listbox>
+              </div>
+              <div className="flex-1 h-full flex flex-col gap-2 overflow-hidden">
+                <div className="flex-1 min-h-0">
+                  {step && (
+                    <BaseDiffEditor
+                      key={selected}
+                      language="yaml"
+                      original={steps[selected - 1]?.content ?? ''}
+                      value={step.content}
+                    />
+                  )}
+                </div>
+                {step && step.logs.length > 0 && (
+                  <div className="max-h-[150px] overflow-y-auto flex flex-col rounded-md bg-content2 px-2 py-1">
+                    {step.logs.map((log, index) => (
+                      <small
+                        key={index}
+                        className={`font-mono select-text break-all ${isErrorLog(log) ? 'text-danger' : ''}`}
+                      >
+                        {log}
+                      </small>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </ModalBody>
+        <ModalFooter className="pt-0 justify-between">
+          <div className="flex items-center gap-2 overflow-hidden">
+            {preview && (
+              <Chip size="sm" variant="flat" color={preview.valid ? 'success' : 'danger'}>
+                {preview.valid ? t('override.preview.valid') : t('override.preview.invalid')}
+              </Chip>
+            )}
+            {preview?.message && (
+              <small className="text-danger select-text whitespace-pre-wrap break-all max-h-[60px] overflow-y-auto">
+                {preview.message}
+              </small>
+            )}
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <Button size="sm" variant="light" isLoading={running} onPress={run}>
+              {t('override.preview.rerun')}
+            </Button>
+            <Button size="sm" variant="light" onPress={onClose}>
+              {t('common.close')}
+            </Button>
+          </div>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  )
+}
+
+export default PipelinePreviewModal
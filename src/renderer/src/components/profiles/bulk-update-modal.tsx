@@ -0,0 +1,117 @@
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Chip,
+  Divider,
+  Progress
+} from '@heroui/react'
+import React, { useEffect, useState } from 'react'
+import { addProfileItem } from '@renderer/utils/ipc'
+import { useTranslation } from 'react-i18next'
+
+interface Props {
+  items: IProfileItem[]
+  current?: string
+  mutateProfileConfig: () => void
+  onClose: () => void
+}
+
+type Status = 'pending' | 'updating' | 'success' | 'error'
+
+const statusColor: Record<Status, 'default' | 'primary' | 'success' | 'danger'> = {
+  pending: 'default',
+  updating: 'primary',
+  success: 'success',
+  error: 'danger'
+}
+
+const BulkUpdateModal: React.FC<Props> = (props) => {
+  const { items, current, mutateProfileConfig, onClose } = props
+  const { t } = useTranslation()
+  const [status, setStatus] = useState<Record<string, Status>>({})
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [running, setRunning] = useState(true)
+
+  // 当前订阅放到最后更新，避免中途多次重启内核
+  const queue = items
+    .filter((item) => item.id !== current)
+    .concat(items.filter((item) => item.id === current))
+  const finished = Object.values(status).filter((s) => s === 'success' || s === 'error').length
+
+  const run = async (): Promise<void> => {
+    for (const item of queue) {
+      setStatus((prev) => ({ ...prev, [item.id]: 'updating' }))
+      try {
+        await addProfileItem(item)
+        setStatus((prev) => ({ ...prev, [item.id]: 'success' }))
+      } catch (e) {
+        setStatus((prev) => ({ ...prev, [item.id]: 'error' }))
+        setErrors((prev) => ({ ...prev, [item.id]: `${e}` }))
+      }
+      mutateProfileConfig()
+    }
+    window.electron.ipcRenderer.send('updateTrayMenu')
+    setRunning(false)
+  }
+
+  useEffect(() => {
+    run()
+  }, [])
+
+  return (
+    <Modal
+      backdrop="blur"
+      classNames={{ backdrop: 'top-[48px]' }}
+      hideCloseButton
+      isDismissable={!running}
+      isOpen={true}
+      onOpenChange={onClose}
+      scrollBehavior="inside"
+    >
+      <ModalContent>
+        <ModalHeader className="flex flex-col gap-2 app-drag">
+          {t('profiles.bulk.updateTitle')}
+          <Progress
+            size="sm"
+            aria-label={t('profiles.bulk.updateTitle')}
+            value={queue.length ? (finished / queue.length) * 100 : 100}
+          />
+        </ModalHeader>
+        <ModalBody>
+          {queue.map((item) => {
+            const s = status[item.id] ?? 'pending'
+            return (
+              <div key={item.id}>
+                <div className="flex justify-between items-center gap-2">
+                  <span className="text-ellipsis whitespace-nowrap overflow-hidden">
+                    {item.name}
+                  </span>
+                  <Chip size="sm" variant="flat" color={statusColor[s]}>
+                    {t(`profiles.bulk.status.${s}`)}
+                  </Chip>
+                </div>
+                {errors[item.id] && (
+                  <small className="block break-all select-text text-danger">
+                    {errors[item.id]}
+                  </small>
+                )}
+                <Divider className="mt-2" />
+              </div>
+            )
+          })}
+        </ModalBody>
+        <ModalFooter>
+          <Button size="sm" variant="light" isDisabled={running} onPress={onClose}>
+            {t('common.close')}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  )
+}
+
+export default BulkUpdateModal
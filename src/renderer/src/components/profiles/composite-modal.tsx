@@ -0,0 +1,120 @@
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Input,
+  Select,
+  SelectItem
+} from '@heroui/react'
+import React, { useState } from 'react'
+import SettingItem from '../base/base-setting-item'
+import { addProfileItem } from '@renderer/utils/ipc'
+import { useTranslation } from 'react-i18next'
+
+interface Props {
+  item?: IProfileItem
+  items: IProfileItem[]
+  mutateProfileConfig: () => void
+  onClose: () => void
+}
+
+const CompositeModal: React.FC<Props> = (props) => {
+  const { item, items, mutateProfileConfig, onClose } = props
+  const { t } = useTranslation()
+  const [name, setName] = useState(item?.name ?? t('profiles.composite.newName'))
+  const [sources, setSources] = useState(item?.sources ?? [])
+  const [primary, setPrimary] = useState(item?.primary)
+  const [saving, setSaving] = useState(false)
+  // 组合订阅不能作为其他组合订阅的来源
+  const candidates = items.filter((i) => i.type !== 'composite' && i.id !== item?.id)
+  const selected = candidates.filter((i) => sources.includes(i.id))
+  const primaryId = primary && sources.includes(primary) ? primary : selected[0]?.id
+
+  const onSave = async (): Promise<void> => {
+    setSaving(true)
+    try {
+      await addProfileItem({
+        ...item,
+        type: 'composite',
+        name,
+        sources: selected.map((i) => i.id),
+        primary: primaryId
+      })
+      mutateProfileConfig()
+      window.electron.ipcRenderer.send('updateTrayMenu')
+      onClose()
+    } catch (e) {
+      alert(e)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Modal
+      backdrop="blur"
+      classNames={{ backdrop: 'top-[48px]' }}
+      hideCloseButton
+      isOpen={true}
+      onOpenChange={onClose}
+      scrollBehavior="inside"
+    >
+      <ModalContent>
+        <ModalHeader className="flex app-drag">{t('profiles.composite.title')}</ModalHeader>
+        <ModalBody>
+          <SettingItem title={t('profiles.editInfo.name')} divider>
+            <Input size="sm" className="w-[250px]" value={name} onValueChange={setName} />
+          </SettingItem>
+          <CheckboxGroup
+            label={t('profiles.composite.sources')}
+            size="sm"
+            value={sources}
+            onValueChange={setSources}
+          >
+            {candidates.map((i) => (
+              <Checkbox key={i.id} value={i.id}>
+                {i.name}
+              </Checkbox>
+            ))}
+          </CheckboxGroup>
+          <SettingItem title={t('profiles.composite.primary')}>
+            <Select
+              size="sm"
+              className="w-[250px]"
+              aria-label={t('profiles.composite.primary')}
+              isDisabled={selected.length === 0}
+              selectedKeys={primaryId ? [primaryId] : []}
+              onSelectionChange={(keys) => setPrimary(keys.currentKey as string)}
+            >
+              {selected.map((i) => (
+                <SelectItem key={i.id}>{i.name}</SelectItem>
+              ))}
+            </Select>
+          </SettingItem>
+          <small className="text-foreground-500">{t('profiles.composite.description')}</small>
+        </ModalBody>
+        <ModalFooter>
+          <Button size="sm" variant="light" onPress={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            size="sm"
+            color="primary"
+            isLoading={saving}
+            isDisabled={selected.length === 0 || !name.trim()}
+            onPress={onSave}
+          >
+            {t('common.save')}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  )
+}
+
+export default CompositeModal
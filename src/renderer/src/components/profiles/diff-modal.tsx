@@ -0,0 +1,151 @@
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Chip,
+  Divider
+} from '@heroui/react'
+import React, { useState } from 'react'
+import { acceptProfileUpdate, discardProfileUpdate } from '@renderer/utils/ipc'
+import dayjs from '@renderer/utils/dayjs'
+import { useTranslation } from 'react-i18next'
+
+interface Props {
+  item: IProfileItem
+  diff: IProfileDiff
+  pending: boolean
+  onClose: () => void
+  mutateProfileConfig: () => void
+}
+
+const DiffSection: React.FC<{ title: string; section: IProfileDiffSection }> = (props) => {
+  const { title, section } = props
+  const { t } = useTranslation()
+  const empty =
+    section.added.length === 0 && section.removed.length === 0 && section.renamed.length === 0
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center gap-2">
+        <span className="font-bold">{title}</span>
+        <Chip size="sm" variant="flat" color="success">
+          +{section.added.length}
+        </Chip>
+        <Chip size="sm" variant="flat" color="danger">
+          -{section.removed.length}
+        </Chip>
+        <Chip size="sm" variant="flat" color="warning">
+          ~{section.renamed.length}
+        </Chip>
+      </div>
+      {empty && <small className="text-foreground-500">{t('profiles.diff.noChange')}</small>}
+      {section.added.map((name) => (
+        <small key={`+${name}`} className="text-success select-text break-all">
+          + {name}
+        </small>
+      ))}
+      {section.removed.map((name) => (
+        <small key={`-${name}`} className="text-danger select-text break-all">
+          - {name}
+        </small>
+      ))}
+      {section.renamed.map(([from, to]) => (
+        <small key={`~${from}`} className="text-warning select-text break-all">
+          ~ {from} → {to}
+        </small>
+      ))}
+    </div>
+  )
+}
+
+const DiffModal: React.FC<Props> = (props) => {
+  const { item, diff, pending, onClose, mutateProfileConfig } = props
+  const { t } = useTranslation()
+  const [loading, setLoading] = useState(false)
+
+  const onDecide = async (accept: boolean): Promise<void> => {
+    setLoading(true)
+    try {
+      if (accept) {
+        await acceptProfileUpdate(item.id)
+      } else {
+        await discardProfileUpdate(item.id)
+      }
+      mutateProfileConfig()
+      onClose()
+    } catch (e) {
+      alert(e)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Modal
+      backdrop="blur"
+      classNames={{ backdrop: 'top-[48px]' }}
+      hideCloseButton
+      isOpen={true}
+      onOpenChange={onClose}
+      scrollBehavior="inside"
+    >
+      <ModalContent>
+        <ModalHeader className="flex flex-col app-drag">
+          {pending
+            ? t('profiles.diff.pendingTitle', { name: item.name })
+            : t('profiles.diff.title')}
+          <small className="text-foreground-500 font-normal">
+            {dayjs(diff.time).format('YYYY-MM-DD HH:mm:ss')}
+          </small>
+        </ModalHeader>
+        <ModalBody>
+          <DiffSection title={t('profiles.diff.proxies')} section={diff.proxies} />
+          <Divider />
+          <DiffSection title={t('profiles.diff.groups')} section={diff.groups} />
+          <Divider />
+          <div className="flex flex-col gap-1">
+            <span className="font-bold">{t('profiles.diff.rules')}</span>
+            {diff.rules.length === 0 && (
+              <small className="text-foreground-500">{t('profiles.diff.noChange')}</small>
+            )}
+            {diff.rules.map((rule) => (
+              <div key={rule.target} className="flex justify-between text-small">
+                <span className="select-text break-all">{rule.target}</span>
+                <span className={rule.after > rule.before ? 'text-success' : 'text-danger'}>
+                  {rule.before} → {rule.after}
+                </span>
+              </div>
+            ))}
+          </div>
+        </ModalBody>
+        <ModalFooter>
+          {pending ? (
+            <>
+              <Button
+                size="sm"
+                variant="light"
+                color="danger"
+                isDisabled={loading}
+                onPress={() => onDecide(false)}
+              >
+                {t('profiles.diff.discard')}
+              </Button>
+              <Button size="sm" color="primary" isLoading={loading} onPress={() => onDecide(true)}>
+                {t('profiles.diff.accept')}
+              </Button>
+            </>
+          ) : (
+            <Button size="sm" variant="light" onPress={onClose}>
+              {t('common.close')}
+            </Button>
+          )}
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  )
+}
+
+export default DiffModal
@@ -8,17 +8,23 @@ import {
   Button,
   Input,
   Switch,
+  Tooltip,
   Dropdown,
   DropdownTrigger,
   DropdownMenu,
   DropdownItem
 } from '@heroui/react'
-import React, { useState } from 'react'
+import React, { useMemo, useState } from 'react'
 import SettingItem from '../base/base-setting-item'
+import ProxyFilterEditor from './proxy-filter-editor'
+import { findInvalidFilterRegex } from '../../../../shared/proxyFilter'
+import OverrideArgsEditor from './override-args-editor'
+import OverrideOrderList from './override-order-list'
 import { useOverrideConfig } from '@renderer/hooks/use-override-config'
 import { restartCore, addProfileUpdater } from '@renderer/utils/ipc'
 import { MdDeleteForever } from 'react-icons/md'
 import { FaPlus } from 'react-icons/fa6'
+import { IoIosHelpCircle } from 'react-icons/io'
 import { useTranslation } from 'react-i18next'
 import { isValidCron } from 'cron-validator';
 
@@ -32,17 +38,90 @@ const EditInfoModal: React.FC<Props> = (props) => {
   const { overrideConfig } = useOverrideConfig()
   const { items: overrideItems = [] } = overrideConfig || {}
   const [values, setValues] = useState(item)
+  const [tags, setTags] = useState((item.tags ?? []).join(', '))
+  const [headers, setHeaders] = useState<[string, string][]>(Object.entries(item.headers || {}))
   const inputWidth = 'w-[400px] md:w-[400px] lg:w-[600px] xl:w-[800px]'
   const { t } = useTranslation()
 
+  // 与主进程保持一致，未排序的覆写按默认顺序追加在后面
+  const orderedOverrides = useMemo(() => {
+    const ids = Array.from(
+      new Set(
+        overrideItems
+          .filter((i) => i.global)
+          .map((i) => i.id)
+          .concat(values.override ?? [])
+      )
+    )
+    const order = values.overrideOrder ?? []
+    return [...order.filter((id) => ids.includes(id)), ...ids.filter((id) => !order.includes(id))]
+      .map((id) => overrideItems.find((i) => i.id === id))
+      .filter((i): i is IOverrideItem => i !== undefined)
+  }, [overrideItems, values.override, values.overrideOrder])
+
+  const renderArgs = (override: IOverrideItem): React.ReactNode => {
+    if (!override.params?.length) return null
+    return (
+      <OverrideArgsEditor
+        params={override.params}
+        args={values.overrideArgs?.[override.id] ?? {}}
+        onChange={(args) => {
+          setValues({ ...values, overrideArgs: { ...values.overrideArgs, [override.id]: args } })
+        }}
+      />
+    )
+  }
+
   const onSave = async (): Promise<void> => {
     try {
+      const invalidRegex = findInvalidFilterRegex(values.proxyFilter)
+      if (invalidRegex !== undefined) {
+        throw new Error(t('profiles.editInfo.filter.invalid', { pattern: invalidRegex }))
+      }
+      // 只保留仍在使用的覆写参数
+      const overrideArgs = Object.fromEntries(
+        Object.entries(values.overrideArgs ?? {}).filter(([id, args]) => {
+          const override = overrideItems.find((t) => t.id === id)
+          return (
+            Object.keys(args).length > 0 &&
+            (override?.global || values.override?.includes(id))
+          )
+        })
+      )
       const updatedItem = {
         ...values,
+        mirrors: values.mirrors?.map((m) => m.trim()).filter(Boolean),
+        folder: values.folder?.trim() || undefined,
+        tags: Array.from(
+          new Set(
+            tags
+              .split(/[,，]/)
+              .map((tag) => tag.trim())
+              .filter(Boolean)
+          )
+        ),
+        userAgent: values.userAgent?.trim() || undefined,
+        headers: headers.some(([key]) => key.trim())
+          ? Object.fromEntries(
+              headers
+                .filter(([key]) => key.trim())
+                .map(([key, value]) => [key.trim(), value.trim()])
+            )
+          : undefined,
         override: values.override?.filter(
           (i) =>
             overrideItems.find((t) => t.id === i) && !overrideItems.find((t) => t.id === i)?.global
-        )
+        ),
+        overrideArgs: Object.keys(overrideArgs).length > 0 ? overrideArgs : undefined,
+        overrideOrder: values.overrideOrder && orderedOverrides.map((i) => i.id),
+        skipGlobalOverride: values.skipGlobalOverride?.filter(
+          (i) => overrideItems.find((t) => t.id === i)?.global
+        ),
+        proxyFilter: values.proxyFilter && {
+          include: values.proxyFilter.include?.trim() || undefined,
+          exclude: values.proxyFilter.exclude?.trim() || undefined,
+          rename: values.proxyFilter.rename?.filter((rule) => rule.pattern)
+        }
       };
       await updateProfileItem(updatedItem)
       await addProfileUpdater(updatedItem)
@@ -79,6 +158,30 @@ const EditInfoModal: React.FC<Props> = (props) => {
               }}
             />
           </SettingItem>
+          <SettingItem title={t('profiles.editInfo.folder')}>
+            <Input
+              size="sm"
+              className={cn(inputWidth)}
+              value={values.folder ?? ''}
+              onValueChange={(v) => {
+                setValues({ ...values, folder: v })
+              }}
+            />
+          </SettingItem>
+          <SettingItem title={t('profiles.editInfo.tags')}>
+            <Input
+              size="sm"
+              className={cn(inputWidth)}
+              value={tags}
+              placeholder={t('profiles.editInfo.tagsPlaceholder')}
+              onValueChange={setTags}
+            />
+          </SettingItem>
+          {values.type === 'linked' && (
+            <SettingItem title={t('profiles.editInfo.path')}>
+              <Input size="sm" className={cn(inputWidth)} value={values.path} isReadOnly />
+            </SettingItem>
+          )}
           {values.type === 'remote' && (
             <>
               <SettingItem title={t('profiles.editInfo.url')}>
@@ -91,6 +194,138 @@ const EditInfoModal: React.FC<Props> = (props) => {
                   }}
                 />
               </SettingItem>
+              {!values.substore && (
+                <>
+                  <SettingItem title={t('profiles.editInfo.mirrors.title')}>
+                    <Button
+                      size="sm"
+                      variant="flat"
+                      color="default"
+                      onPress={() => {
+                        setValues({
+                          ...values,
+                          mirrors: Array.from(values.mirrors || []).concat('')
+                        })
+                      }}
+                    >
+                      <FaPlus />
+                    </Button>
+                  </SettingItem>
+                  {values.mirrors?.map((mirror, index) => (
+                    <div className="flex" key={index}>
+                      <Input
+                        size="sm"
+                        value={mirror}
+                        placeholder={t('profiles.editInfo.mirrors.placeholder')}
+                        onValueChange={(v) => {
+                          const mirrors = Array.from(values.mirrors || [])
+                          mirrors[index] = v
+                          setValues({ ...values, mirrors })
+                        }}
+                      />
+                      <Button
+                        color="warning"
+                        variant="flat"
+                        className="ml-2"
+                        size="sm"
+                        onPress={() => {
+                          setValues({
+                            ...values,
+                            mirrors: values.mirrors?.filter((_, i) => i !== index)
+                          })
+                        }}
+                      >
+                        <MdDeleteForever className="text-lg" />
+                      </Button>
+                    </div>
+                  ))}
+                  {values.lastMirror && (
+                    <small className="text-foreground-500 break-all">
+                      {t('profiles.editInfo.mirrors.lastSuccess', { url: values.lastMirror })}
+                    </small>
+                  )}
+                </>
+              )}
+              <SettingItem title={t('profiles.editInfo.timeout')}>
+                <Input
+                  size="sm"
+                  type="number"
+                  className={cn(inputWidth)}
+                  value={values.timeout?.toString() ?? ''}
+                  placeholder="30"
+                  endContent={t('common.seconds')}
+                  onValueChange={(v) => {
+                    setValues({ ...values, timeout: v === '' ? undefined : parseInt(v, 10) || 0 })
+                  }}
+                />
+              </SettingItem>
+              <SettingItem title={t('profiles.editInfo.userAgent')}>
+                <Input
+                  size="sm"
+                  className={cn(inputWidth)}
+                  value={values.userAgent ?? ''}
+                  placeholder={t('profiles.editInfo.userAgentPlaceholder')}
+                  onValueChange={(v) => {
+                    setValues({ ...values, userAgent: v })
+                  }}
+                />
+              </SettingItem>
+              <SettingItem title={t('profiles.editInfo.headers.title')}>
+                <Button
+                  size="sm"
+                  variant="flat"
+                  color="default"
+                  onPress={() => {
+                    setHeaders([...headers, ['', '']])
+                  }}
+                >
+                  <FaPlus />
+                </Button>
+              </SettingItem>
+              {headers.map(([key, value], index) => (
+                <div className="flex gap-2" key={index}>
+                  <Input
+                    size="sm"
+                    className="w-[40%]"
+                    value={key}
+                    placeholder={t('profiles.editInfo.headers.name')}
+                    onValueChange={(v) => {
+                      const newHeaders = Array.from(headers)
+                      newHeaders[index] = [v, value]
+                      setHeaders(newHeaders)
+                    }}
+                  />
+                  <Input
+                    size="sm"
+                    value={value}
+                    placeholder={t('profiles.editInfo.headers.value')}
+                    onValueChange={(v) => {
+                      const newHeaders = Array.from(headers)
+                      newHeaders[index] = [key, v]
+                      setHeaders(newHeaders)
+                    }}
+                  />
+                  <Button
+                    color="warning"
+                    variant="flat"
+                    size="sm"
+                    onPress={() => {
+                      setHeaders(headers.filter((_, i) => i !== index))
+                    }}
+                  >
+                    <MdDeleteForever className="text-lg" />
+                  </Button>
+                </div>
+              ))}
+              <SettingItem title={t('profiles.editInfo.skipCertVerify')}>
+                <Switch
+                  size="sm"
+                  isSelected={values.skipCertVerify ?? false}
+                  onValueChange={(v) => {
+                    setValues({ ...values, skipCertVerify: v })
+                  }}
+                />
+              </SettingItem>
               <SettingItem title={t('profiles.editInfo.useProxy')}>
                 <Switch
                   size="sm"
@@ -100,6 +335,35 @@ const EditInfoModal: React.FC<Props> = (props) => {
                   }}
                 />
               </SettingItem>
+              {!values.useProxy && (
+                <SettingItem
+                  title={t('profiles.editInfo.proxyFallback')}
+                  actions={
+                    <Tooltip content={t('profiles.editInfo.proxyFallbackTooltip')}>
+                      <Button isIconOnly size="sm" variant="light">
+                        <IoIosHelpCircle className="text-lg" />
+                      </Button>
+                    </Tooltip>
+                  }
+                >
+                  <Switch
+                    size="sm"
+                    isSelected={values.proxyFallback ?? false}
+                    onValueChange={(v) => {
+                      setValues({ ...values, proxyFallback: v })
+                    }}
+                  />
+                </SettingItem>
+              )}
+              <SettingItem title={t('profiles.editInfo.confirmUpdate')}>
+                <Switch
+                  size="sm"
+                  isSelected={values.confirmUpdate ?? false}
+                  onValueChange={(v) => {
+                    setValues({ ...values, confirmUpdate: v })
+                  }}
+                />
+              </SettingItem>
               <SettingItem title={t('profiles.editInfo.interval')}>
                 <div className="flex flex-col gap-2">
                   <Input
@@ -164,44 +428,30 @@ const EditInfoModal: React.FC<Props> = (props) => {
               </SettingItem>
             </>
           )}
+          <ProxyFilterEditor
+            id={item.id}
+            filter={values.proxyFilter ?? {}}
+            inputWidth={cn(inputWidth)}
+            onChange={(proxyFilter) => setValues({ ...values, proxyFilter })}
+          />
           <SettingItem title={t('profiles.editInfo.override.title')}>
             <div>
-              {overrideItems
-                .filter((i) => i.global)
-                .map((i) => {
-                  return (
-                    <div className="flex mb-2" key={i.id}>
-                      <Button disabled fullWidth variant="flat" size="sm">
-                        {i.name} ({t('profiles.editInfo.override.global')})
-                      </Button>
-                    </div>
+              <OverrideOrderList
+                overrides={orderedOverrides}
+                skipped={values.skipGlobalOverride ?? []}
+                onReorder={(overrideOrder) => setValues({ ...values, overrideOrder })}
+                onRemove={(id) => {
+                  setValues({ ...values, override: values.override?.filter((t) => t !== id) })
+                }}
+                onSkipChange={(id, skip) => {
+                  const skipGlobalOverride = (values.skipGlobalOverride ?? []).filter(
+                    (t) => t !== id
                   )
-                })}
-              {values.override?.map((i) => {
-                if (!overrideItems.find((t) => t.id === i)) return null
-                if (overrideItems.find((t) => t.id === i)?.global) return null
-                return (
-                  <div className="flex mb-2" key={i}>
-                    <Button disabled fullWidth variant="flat" size="sm">
-                      {overrideItems.find((t) => t.id === i)?.name}
-                    </Button>
-                    <Button
-                      color="warning"
-                      variant="flat"
-                      className="ml-2"
-                      size="sm"
-                      onPress={() => {
-                        setValues({
-                          ...values,
-                          override: values.override?.filter((t) => t !== i)
-                        })
-                      }}
-                    >
-                      <MdDeleteForever className="text-lg" />
-                    </Button>
-                  </div>
-                )
-              })}
+                  if (skip) skipGlobalOverride.push(id)
+                  setValues({ ...values, skipGlobalOverride })
+                }}
+                renderExtra={renderArgs}
+              />
               <Dropdown>
                 <DropdownTrigger>
                   <Button fullWidth size="sm" variant="flat" color="default">
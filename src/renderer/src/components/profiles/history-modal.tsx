@@ -0,0 +1,184 @@
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Checkbox,
+  Select,
+  SelectItem
+} from '@heroui/react'
+import React, { useEffect, useState } from 'react'
+import { BaseDiffEditor } from '../base/base-editor'
+import {
+  getProfileHistory,
+  getProfileHistoryStr,
+  getProfileStr,
+  restoreProfileHistory
+} from '@renderer/utils/ipc'
+import { calcTraffic } from '@renderer/utils/calc'
+import dayjs from '@renderer/utils/dayjs'
+import { useTranslation } from 'react-i18next'
+
+interface Props {
+  id: string
+  // 订阅是否开启了自动更新
+  autoUpdate: boolean
+  mutateProfileConfig: () => void
+  onClose: () => void
+}
+
+const CURRENT = 'current'
+
+const HistoryModal: React.FC<Props> = (props) => {
+  const { id, autoUpdate, mutateProfileConfig, onClose } = props
+  const { t } = useTranslation()
+  const [history, setHistory] = useState<IProfileHistoryItem[]>([])
+  const [original, setOriginal] = useState('')
+  const [modified, setModified] = useState(CURRENT)
+  const [originalData, setOriginalData] = useState('')
+  const [modifiedData, setModifiedData] = useState('')
+  const [restoring, setRestoring] = useState(false)
+  const [pauseUpdate, setPauseUpdate] = useState(true)
+
+  const getContent = async (version: string): Promise<string> => {
+    if (!version) return ''
+    if (version === CURRENT) return await getProfileStr(id)
+    return await getProfileHistoryStr(id, version)
+  }
+
+  const getHistory = async (): Promise<void> => {
+    const list = await getProfileHistory(id)
+    setHistory(list)
+    setOriginal(list[0]?.version ?? '')
+    setModified(CURRENT)
+  }
+
+  const versionLabel = (item: IProfileHistoryItem): string => {
+    return `${dayjs(item.time).format('YYYY-MM-DD HH:mm:ss')} (${calcTraffic(item.size)})`
+  }
+
+  const versionDescription = (item: IProfileHistoryItem): string | undefined => {
+    const parts: string[] = []
+    if (item.extra) {
+      const usage = (item.extra.upload ?? 0) + (item.extra.download ?? 0)
+      parts.push(`${calcTraffic(usage)}/${calcTraffic(item.extra.total ?? 0)}`)
+    }
+    if (item.url) parts.push(item.url)
+    return parts.length ? parts.join(' · ') : undefined
+  }
+
+  useEffect(() => {
+    getHistory()
+  }, [])
+
+  useEffect(() => {
+    getContent(original).then(setOriginalData).catch(alert)
+  }, [original])
+
+  useEffect(() => {
+    getContent(modified).then(setModifiedData).catch(alert)
+  }, [modified])
+
+  const versionItems = [
+    { key: CURRENT, label: t('profiles.history.current'), description: undefined },
+    ...history.map((item) => ({
+      key: item.version,
+      label: versionLabel(item),
+      description: versionDescription(item)
+    }))
+  ]
+
+  return (
+    <Modal
+      backdrop="blur"
+      classNames={{ backdrop: 'top-[48px]' }}
+      size="5xl"
+      hideCloseButton
+      isOpen={true}
+      onOpenChange={onClose}
+      scrollBehavior="inside"
+    >
+      <ModalContent className="h-full w-[calc(100%-100px)]">
+        <ModalHeader className="flex pb-0 app-drag">{t('profiles.history.title')}</ModalHeader>
+        <ModalBody className="h-full">
+          {history.length === 0 ? (
+            <div className="h-full w-full flex justify-center items-center text-foreground-500">
+              {t('profiles.history.empty')}
+            </div>
+          ) : (
+            <>
+              <div className="flex gap-2">
+                <Select
+                  size="sm"
+                  label={t('profiles.history.original')}
+                  selectedKeys={new Set([original])}
+                  disallowEmptySelection
+                  onSelectionChange={(v) => setOriginal(Array.from(v)[0] as string)}
+                >
+                  {versionItems.map((item) => (
+                    <SelectItem key={item.key} description={item.description}>
+                      {item.label}
+                    </SelectItem>
+                  ))}
+                </Select>
+                <Select
+                  size="sm"
+                  label={t('profiles.history.modified')}
+                  selectedKeys={new Set([modified])}
+                  disallowEmptySelection
+                  onSelectionChange={(v) => setModified(Array.from(v)[0] as string)}
+                >
+                  {versionItems.map((item) => (
+                    <SelectItem key={item.key} description={item.description}>
+                      {item.label}
+                    </SelectItem>
+                  ))}
+                </Select>
+              </div>
+              <BaseDiffEditor language="yaml" original={originalData} value={modifiedData} />
+            </>
+          )}
+        </ModalBody>
+        <ModalFooter className="pt-0">
+          {autoUpdate && history.length > 0 && (
+            <div className="flex items-center gap-2 mr-auto">
+              <Checkbox size="sm" isSelected={pauseUpdate} onValueChange={setPauseUpdate}>
+                {t('profiles.history.pauseUpdate')}
+              </Checkbox>
+              {!pauseUpdate && (
+                <small className="text-warning">{t('profiles.history.overwriteWarning')}</small>
+              )}
+            </div>
+          )}
+          <Button size="sm" variant="light" onPress={onClose}>
+            {t('common.close')}
+          </Button>
+          <Button
+            size="sm"
+            color="primary"
+            isDisabled={!original || original === CURRENT}
+            isLoading={restoring}
+            onPress={async () => {
+              setRestoring(true)
+              try {
+                await restoreProfileHistory(id, original, autoUpdate && pauseUpdate)
+                mutateProfileConfig()
+                await getHistory()
+              } catch (e) {
+                alert(e)
+              } finally {
+                setRestoring(false)
+              }
+            }}
+          >
+            {t('profiles.history.restore')}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  )
+}
+
+export default HistoryModal
@@ -0,0 +1,172 @@
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Chip,
+  Input
+} from '@heroui/react'
+import React, { useMemo, useState } from 'react'
+import { BaseEditor } from '../base/base-editor'
+import { useControledMihomoConfig } from '@renderer/hooks/use-controled-mihomo-config'
+import { useAppConfig } from '@renderer/hooks/use-app-config'
+import { restartCore, triggerSysProxy } from '@renderer/utils/ipc'
+import yaml from 'yaml'
+import { useTranslation } from 'react-i18next'
+
+interface Props {
+  item: IProfileItem
+  isCurrent: boolean
+  updateProfileItem: (item: IProfileItem) => Promise<void>
+  onClose: () => void
+}
+
+// 展开为 a.b.c 形式的路径，数组视为单个值
+function flatten(
+  value: unknown,
+  prefix = '',
+  result: Record<string, unknown> = {}
+): Record<string, unknown> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const entries = Object.entries(value)
+    if (entries.length === 0 && prefix) result[prefix] = value
+    for (const [key, child] of entries) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, result)
+    }
+  } else if (prefix) {
+    result[prefix] = value
+  }
+  return result
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+const MihomoConfigModal: React.FC<Props> = (props) => {
+  const { item, isCurrent, updateProfileItem, onClose } = props
+  const { t } = useTranslation()
+  const { appConfig } = useAppConfig()
+  const { controledMihomoConfig } = useControledMihomoConfig()
+  const [content, setContent] = useState(item.mihomoConfig ? yaml.stringify(item.mihomoConfig) : '')
+  const [search, setSearch] = useState('')
+
+  const layer = useMemo((): Partial<IMihomoConfig> | undefined => {
+    try {
+      const parsed = yaml.parse(content, { merge: true })
+      if (parsed === null || parsed === undefined) return {}
+      return typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined
+    } catch {
+      return undefined
+    }
+  }, [content])
+
+  const rows = useMemo(() => {
+    const inherited = flatten(controledMihomoConfig ?? {})
+    const overridden = flatten(layer ?? {})
+    return Array.from(new Set([...Object.keys(overridden), ...Object.keys(inherited)]))
+      .filter((path) => path.toLowerCase().includes(search.toLowerCase()))
+      .map((path) => ({
+        path,
+        inherited: inherited[path],
+        overridden: path in overridden,
+        value: path in overridden ? overridden[path] : inherited[path]
+      }))
+  }, [controledMihomoConfig, layer, search])
+
+  const onSave = async (): Promise<void> => {
+    try {
+      const mihomoConfig = layer && Object.keys(layer).length > 0 ? layer : undefined
+      await updateProfileItem({ ...item, mihomoConfig })
+      // 只有当前订阅的设置需要重启内核生效
+      if (isCurrent) {
+        await restartCore()
+        // 代理端口变化时同步系统代理
+        const prevPort = item.mihomoConfig?.['mixed-port']
+        if (appConfig?.sysProxy.enable && mihomoConfig?.['mixed-port'] !== prevPort) {
+          await triggerSysProxy(true)
+        }
+      }
+      onClose()
+    } catch (e) {
+      alert(e)
+    }
+  }
+
+  return (
+    <Modal
+      backdrop="blur"
+      classNames={{ backdrop: 'top-[48px]' }}
+      size="5xl"
+      hideCloseButton
+      isOpen={true}
+      onOpenChange={onClose}
+      scrollBehavior="inside"
+    >
+      <ModalContent className="h-full w-[calc(100%-100px)]">
+        <ModalHeader className="flex flex-col pb-0 app-drag">
+          {t('profiles.mihomoConfig.title')}
+          <small className="text-foreground-500 font-normal">
+            {t('profiles.mihomoConfig.description')}
+          </small>
+        </ModalHeader>
+        <ModalBody className="h-full flex flex-row gap-2">
+          <div className="w-1/2 h-full">
+            <BaseEditor language="yaml" value={content} onChange={setContent} />
+          </div>
+          <div className="w-1/2 h-full flex flex-col gap-2">
+            <Input
+              size="sm"
+              isClearable
+              value={search}
+              placeholder={t('profiles.mihomoConfig.search')}
+              onValueChange={setSearch}
+            />
+            {!layer && <small className="text-danger">{t('profiles.mihomoConfig.invalid')}</small>}
+            <div className="flex flex-col gap-1 overflow-y-auto">
+              {rows.map((row) => (
+                <div key={row.path} className="flex items-center justify-between gap-2">
+                  <div className="flex flex-col overflow-hidden">
+                    <small className="font-mono break-all">{row.path}</small>
+                    <small
+                      className={`select-text break-all ${row.overridden ? 'text-warning' : 'text-foreground-500'}`}
+                    >
+                      {formatValue(row.value)}
+                      {row.overridden && row.inherited !== undefined && (
+                        <span className="ml-2 text-foreground-400 line-through">
+                          {formatValue(row.inherited)}
+                        </span>
+                      )}
+                    </small>
+                  </div>
+                  <Chip
+                    size="sm"
+                    variant="flat"
+                    className="shrink-0"
+                    color={row.overridden ? 'warning' : 'default'}
+                  >
+                    {row.overridden
+                      ? t('profiles.mihomoConfig.overridden')
+                      : t('profiles.mihomoConfig.inherited')}
+                  </Chip>
+                </div>
+              ))}
+            </div>
+          </div>
+        </ModalBody>
+        <ModalFooter className="pt-0">
+          <Button size="sm" variant="light" onPress={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button size="sm" color="primary" isDisabled={!layer} onPress={onSave}>
+            {t('common.save')}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  )
+}
+
+export default MihomoConfigModal
@@ -0,0 +1,63 @@
+import { Input, Switch } from '@heroui/react'
+import React from 'react'
+import { useTranslation } from 'react-i18next'
+
+interface Props {
+  params: IOverrideParam[]
+  args: Record<string, OverrideArgValue>
+  onChange: (args: Record<string, OverrideArgValue>) => void
+}
+
+// 为订阅引用的覆写填写参数，留空时使用覆写声明的默认值
+const OverrideArgsEditor: React.FC<Props> = (props) => {
+  const { params, args, onChange } = props
+  const { t } = useTranslation()
+
+  const update = (key: string, value: OverrideArgValue | undefined): void => {
+    const newArgs = { ...args }
+    if (value === undefined) {
+      delete newArgs[key]
+    } else {
+      newArgs[key] = value
+    }
+    onChange(newArgs)
+  }
+
+  return (
+    <div className="flex flex-col gap-1 mb-2 pl-2 border-l-2 border-default">
+      {params.map((param) =>
+        param.type === 'boolean' ? (
+          <div key={param.key} className="flex items-center justify-between gap-2">
+            <small title={param.description}>{param.key}</small>
+            <Switch
+              size="sm"
+              isSelected={(args[param.key] ?? param.default) === true}
+              onValueChange={(v) => update(param.key, v)}
+            />
+          </div>
+        ) : (
+          <Input
+            key={param.key}
+            size="sm"
+            type={param.type === 'number' ? 'number' : 'text'}
+            label={param.key}
+            labelPlacement="outside-left"
+            description={param.description}
+            value={args[param.key]?.toString() ?? ''}
+            placeholder={
+              param.default !== undefined
+                ? t('profiles.editInfo.override.argDefault', { value: param.default })
+                : undefined
+            }
+            onValueChange={(v) => {
+              if (v === '') update(param.key, undefined)
+              else update(param.key, param.type === 'number' ? Number(v) : v)
+            }}
+          />
+        )
+      )}
+    </div>
+  )
+}
+
+export default OverrideArgsEditor
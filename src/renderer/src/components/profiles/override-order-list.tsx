@@ -0,0 +1,124 @@
+import { Button, Chip, Switch } from '@heroui/react'
+import React from 'react'
+import {
+  DndContext,
+  closestCenter,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent
+} from '@dnd-kit/core'
+import { SortableContext, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable'
+import { CSS } from '@dnd-kit/utilities'
+import { MdDeleteForever, MdDragIndicator } from 'react-icons/md'
+import { useTranslation } from 'react-i18next'
+
+interface Props {
+  // 按执行顺序排列的覆写
+  overrides: IOverrideItem[]
+  skipped: string[]
+  onReorder: (ids: string[]) => void
+  onRemove: (id: string) => void
+  onSkipChange: (id: string, skip: boolean) => void
+  renderExtra: (item: IOverrideItem) => React.ReactNode
+}
+
+interface RowProps {
+  item: IOverrideItem
+  skipped: boolean
+  onRemove: () => void
+  onSkipChange: (skip: boolean) => void
+  children?: React.ReactNode
+}
+
+const OverrideOrderRow: React.FC<RowProps> = (props) => {
+  const { item, skipped, onRemove, onSkipChange, children } = props
+  const { t } = useTranslation()
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: item.id
+  })
+  const inactive = skipped || item.enabled === false
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{
+        transform: CSS.Translate.toString(transform),
+        transition,
+        zIndex: isDragging ? 'calc(infinity)' : undefined,
+        position: 'relative'
+      }}
+    >
+      <div className="flex items-center mb-2 gap-2">
+        <div {...attributes} {...listeners} className="cursor-grab text-foreground-500">
+          <MdDragIndicator className="text-lg" />
+        </div>
+        <Button
+          disabled
+          fullWidth
+          variant="flat"
+          size="sm"
+          className={inactive ? 'line-through opacity-60' : ''}
+        >
+          {item.global ? `${item.name} (${t('profiles.editInfo.override.global')})` : item.name}
+        </Button>
+        {item.enabled === false && (
+          <Chip size="sm" variant="flat" className="shrink-0">
+            {t('profiles.editInfo.override.disabled')}
+          </Chip>
+        )}
+        {item.global ? (
+          <Switch
+            size="sm"
+            title={t('profiles.editInfo.override.apply')}
+            isSelected={!skipped}
+            onValueChange={(v) => onSkipChange(!v)}
+          />
+        ) : (
+          <Button color="warning" variant="flat" size="sm" onPress={onRemove}>
+            <MdDeleteForever className="text-lg" />
+          </Button>
+        )}
+      </div>
+      {children}
+    </div>
+  )
+}
+
+const OverrideOrderList: React.FC<Props> = (props) => {
+  const { overrides, skipped, onReorder, onRemove, onSkipChange, renderExtra } = props
+  const sensors = useSensors(useSensor(PointerSensor))
+
+  const onDragEnd = (event: DragEndEvent): void => {
+    const { active, over } = event
+    if (!over || active.id === over.id) return
+    const ids = overrides.map((item) => item.id)
+    const from = ids.indexOf(active.id as string)
+    const to = ids.indexOf(over.id as string)
+    ids.splice(to, 0, ids.splice(from, 1)[0])
+    onReorder(ids)
+  }
+
+  return (
+    <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={onDragEnd}>
+      <SortableContext
+        items={overrides.map((item) => item.id)}
+        strategy={verticalListSortingStrategy}
+      >
+        {overrides.map((item) => (
+          <OverrideOrderRow
+            key={item.id}
+            item={item}
+            skipped={skipped.includes(item.id)}
+            onRemove={() => onRemove(item.id)}
+            onSkipChange={(skip) => onSkipChange(item.id, skip)}
+          >
+            {renderExtra(item)}
+          </OverrideOrderRow>
+        ))}
+      </SortableContext>
+    </DndContext>
+  )
+}
+
+export default OverrideOrderList
@@ -17,6 +17,13 @@ import dayjs from '@renderer/utils/dayjs'
 import React, { Key, useMemo, useState } from 'react'
 import EditFileModal from './edit-file-modal'
 import EditInfoModal from './edit-info-modal'
+import HistoryModal from './history-modal'
+import ShareModal from './share-modal'
+import DiffModal from './diff-modal'
+import CompositeModal from './composite-modal'
+import MihomoConfigModal from './mihomo-config-modal'
+import PipelinePreviewModal from '../override/pipeline-preview-modal'
+import { useProfileConfig } from '@renderer/hooks/use-profile-config'
 import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import { openFile } from '@renderer/utils/ipc'
@@ -26,6 +33,7 @@ import { useTranslation } from 'react-i18next'
 interface Props {
   info: IProfileItem
   isCurrent: boolean
+  isSelected?: boolean
   addProfileItem: (item: Partial<IProfileItem>) => Promise<void>
   updateProfileItem: (item: IProfileItem) => Promise<void>
   removeProfileItem: (id: string) => Promise<void>
@@ -37,7 +45,7 @@ interface MenuItem {
   key: string
   label: string
   showDivider: boolean
-  color: 'default' | 'danger'
+  color: 'default' | 'danger' | 'warning'
   className: string
 }
 const ProfileItem: React.FC<Props> = (props) => {
@@ -49,17 +57,25 @@ const ProfileItem: React.FC<Props> = (props) => {
     mutateProfileConfig,
     updateProfileItem,
     onPress,
-    isCurrent
+    isCurrent,
+    isSelected = false
   } = props
   const extra = info?.extra
   const usage = (extra?.upload ?? 0) + (extra?.download ?? 0)
   const total = extra?.total ?? 0
   const { appConfig, patchAppConfig } = useAppConfig()
+  const { profileConfig } = useProfileConfig()
   const { profileDisplayDate = 'expire' } = appConfig || {}
   const [updating, setUpdating] = useState(false)
   const [selecting, setSelecting] = useState(false)
   const [openInfoEditor, setOpenInfoEditor] = useState(false)
   const [openFileEditor, setOpenFileEditor] = useState(false)
+  const [openHistory, setOpenHistory] = useState(false)
+  const [openShare, setOpenShare] = useState(false)
+  const [openDiff, setOpenDiff] = useState<'last' | 'pending'>()
+  const [openComposite, setOpenComposite] = useState(false)
+  const [openMihomoConfig, setOpenMihomoConfig] = useState(false)
+  const [openPreview, setOpenPreview] = useState(false)
   const [dropdownOpen, setDropdownOpen] = useState(false)
   const {
     attributes,
@@ -91,6 +107,27 @@ const ProfileItem: React.FC<Props> = (props) => {
         color: 'default',
         className: ''
       } as MenuItem,
+      {
+        key: 'mihomo-config',
+        label: t('profiles.mihomoConfig.title'),
+        showDivider: false,
+        color: 'default',
+        className: ''
+      } as MenuItem,
+      {
+        key: 'preview',
+        label: t('override.preview.title'),
+        showDivider: false,
+        color: 'default',
+        className: ''
+      } as MenuItem,
+      {
+        key: 'history',
+        label: t('profiles.history.title'),
+        showDivider: false,
+        color: 'default',
+        className: ''
+      } as MenuItem,
       {
         key: 'open-file',
         label: t('profiles.openFile'),
@@ -106,6 +143,42 @@ const ProfileItem: React.FC<Props> = (props) => {
         className: 'text-danger'
       } as MenuItem
     ]
+    if (info.type === 'remote' && !info.substore) {
+      list.splice(5, 0, {
+        key: 'share',
+        label: t('profiles.share.title'),
+        showDivider: false,
+        color: 'default',
+        className: ''
+      } as MenuItem)
+    }
+    if (info.type === 'composite') {
+      list.splice(1, 0, {
+        key: 'composite',
+        label: t('profiles.composite.title'),
+        showDivider: false,
+        color: 'default',
+        className: ''
+      } as MenuItem)
+    }
+    if (info.lastDiff) {
+      list.splice(5, 0, {
+        key: 'diff',
+        label: t('profiles.diff.title'),
+        showDivider: false,
+        color: 'default',
+        className: ''
+      } as MenuItem)
+    }
+    if (info.pendingDiff) {
+      list.unshift({
+        key: 'pending',
+        label: t('profiles.diff.review'),
+        showDivider: false,
+        color: 'warning',
+        className: 'text-warning'
+      } as MenuItem)
+    }
     if (info.home) {
       list.unshift({
         key: 'home',
@@ -128,6 +201,34 @@ const ProfileItem: React.FC<Props> = (props) => {
         setOpenFileEditor(true)
         break
       }
+      case 'history': {
+        setOpenHistory(true)
+        break
+      }
+      case 'share': {
+        setOpenShare(true)
+        break
+      }
+      case 'mihomo-config': {
+        setOpenMihomoConfig(true)
+        break
+      }
+      case 'composite': {
+        setOpenComposite(true)
+        break
+      }
+      case 'preview': {
+        setOpenPreview(true)
+        break
+      }
+      case 'diff': {
+        setOpenDiff('last')
+        break
+      }
+      case 'pending': {
+        setOpenDiff('pending')
+        break
+      }
       case 'open-file': {
         openFile('profile', info.id)
         break
@@ -203,6 +304,41 @@ const ProfileItem: React.FC<Props> = (props) => {
       }}
     >
       {openFileEditor && <EditFileModal id={info.id} onClose={() => setOpenFileEditor(false)} />}
+      {openHistory && (
+        <HistoryModal
+          id={info.id}
+          autoUpdate={info.type === 'remote' && !!info.interval}
+          mutateProfileConfig={mutateProfileConfig}
+          onClose={() => setOpenHistory(false)}
+        />
+      )}
+      {openShare && <ShareModal item={info} onClose={() => setOpenShare(false)} />}
+      {openPreview && <PipelinePreviewModal id={info.id} onClose={() => setOpenPreview(false)} />}
+      {openMihomoConfig && (
+        <MihomoConfigModal
+          item={info}
+          isCurrent={isCurrent}
+          updateProfileItem={updateProfileItem}
+          onClose={() => setOpenMihomoConfig(false)}
+        />
+      )}
+      {openComposite && (
+        <CompositeModal
+          item={info}
+          items={profileConfig?.items ?? []}
+          mutateProfileConfig={mutateProfileConfig}
+          onClose={() => setOpenComposite(false)}
+        />
+      )}
+      {openDiff && (openDiff === 'pending' ? info.pendingDiff : info.lastDiff) && (
+        <DiffModal
+          item={info}
+          diff={(openDiff === 'pending' ? info.pendingDiff : info.lastDiff) as IProfileDiff}
+          pending={openDiff === 'pending'}
+          onClose={() => setOpenDiff(undefined)}
+          mutateProfileConfig={mutateProfileConfig}
+        />
+      )}
       {openInfoEditor && (
         <EditInfoModal
           item={info}
@@ -216,7 +352,7 @@ const ProfileItem: React.FC<Props> = (props) => {
         fullWidth
         isPressable={false}
         onContextMenu={handleContextMenu}
-        className={`${isCurrent ? 'bg-primary' : ''} ${selecting ? 'blur-sm' : ''} cursor-pointer`}
+        className={`${isCurrent ? 'bg-primary' : ''} ${isSelected ? 'ring-2 ring-primary ring-offset-2 ring-offset-background' : ''} ${selecting ? 'blur-sm' : ''} cursor-pointer`}
       >
         <div
           ref={setNodeRef}
@@ -229,14 +365,31 @@ const ProfileItem: React.FC<Props> = (props) => {
         >
           <CardBody className="pb-1">
             <div className="flex justify-between h-[32px]">
-              <h3
-                title={info?.name}
-                className={`text-ellipsis whitespace-nowrap overflow-hidden text-md font-bold leading-[32px] ${isCurrent ? 'text-primary-foreground' : 'text-foreground'}`}
-              >
-                {info?.name}
-              </h3>
+              <div className="flex items-center gap-1 overflow-hidden">
+                <h3
+                  title={info?.name}
+                  className={`text-ellipsis whitespace-nowrap overflow-hidden text-md font-bold leading-[32px] ${isCurrent ? 'text-primary-foreground' : 'text-foreground'}`}
+                >
+                  {info?.name}
+                </h3>
+                {info.alertState?.traffic && (
+                  <Chip size="sm" color="warning" variant="flat" className="shrink-0">
+                    {t('profiles.alert.trafficBadge')}
+                  </Chip>
+                )}
+                {info.alertState?.expire && (
+                  <Chip size="sm" color="danger" variant="flat" className="shrink-0">
+                    {t('profiles.alert.expireBadge')}
+                  </Chip>
+                )}
+                {info.pendingDiff && (
+                  <Chip size="sm" color="warning" variant="flat" className="shrink-0">
+                    {t('profiles.diff.pendingBadge')}
+                  </Chip>
+                )}
+              </div>
               <div className="flex">
-                {info.type === 'remote' && (
+                {info.type !== 'local' && (
                   <Tooltip placement="left" content={dayjs(info.updated).fromNow()}>
                     <Button
                       isIconOnly
@@ -290,6 +443,60 @@ const ProfileItem: React.FC<Props> = (props) => {
                 </Dropdown>
               </div>
             </div>
+            {info.rejectReason && (
+              <Tooltip
+                placement="bottom"
+                content={
+                  <div className="max-w-[400px] whitespace-pre-wrap break-all">
+                    {info.rejectReason}
+                  </div>
+                }
+              >
+                <small
+                  className={`block mt-1 text-ellipsis whitespace-nowrap overflow-hidden ${isCurrent ? 'text-primary-foreground' : 'text-danger'}`}
+                >
+                  {t('profiles.updateRejected', {
+                    time: dayjs(info.rejectTime).fromNow(),
+                    reason: info.rejectReason
+                  })}
+                </small>
+              </Tooltip>
+            )}
+            {info.updateError && (
+              <Tooltip
+                placement="bottom"
+                content={
+                  <div className="max-w-[400px] whitespace-pre-wrap break-all">
+                    {info.updateError}
+                  </div>
+                }
+              >
+                <small
+                  className={`block mt-1 text-ellipsis whitespace-nowrap overflow-hidden ${isCurrent ? 'text-primary-foreground' : 'text-danger'}`}
+                >
+                  {t('profiles.updateFailed', {
+                    count: info.updateFailures ?? 1,
+                    time: dayjs(info.updateFailedTime).fromNow(),
+                    error: info.updateError
+                  })}
+                </small>
+              </Tooltip>
+            )}
+            {info.tags && info.tags.length > 0 && (
+              <div className="flex gap-1 mt-1 overflow-hidden">
+                {info.tags.map((tag) => (
+                  <Chip
+                    key={tag}
+                    size="sm"
+                    radius="sm"
+                    variant="flat"
+                    className={`shrink-0 ${isCurrent ? 'text-primary-foreground' : ''}`}
+                  >
+                    {tag}
+                  </Chip>
+                ))}
+              </div>
+            )}
             {info.type === 'remote' && extra && (
               <div
                 className={`mt-2 flex justify-between ${isCurrent ? 'text-primary-foreground' : 'text-foreground'}`}
@@ -349,6 +556,38 @@ const ProfileItem: React.FC<Props> = (props) => {
                 </Chip>
               </div>
             )}
+            {info.type === 'composite' && (
+              <div
+                className={`w-full mt-2 flex justify-between gap-2 ${isCurrent ? 'text-primary-foreground' : 'text-foreground'}`}
+              >
+                <Chip
+                  size="sm"
+                  variant="bordered"
+                  className={`shrink-0 ${isCurrent ? 'text-primary-foreground border-primary-foreground' : 'border-primary text-primary'}`}
+                >
+                  {t('profiles.composite.label')}
+                </Chip>
+                <small className="text-ellipsis whitespace-nowrap overflow-hidden">
+                  {t('profiles.composite.count', { count: info.sources?.length ?? 0 })}
+                </small>
+              </div>
+            )}
+            {info.type === 'linked' && (
+              <div
+                className={`w-full mt-2 flex justify-between gap-2 ${isCurrent ? 'text-primary-foreground' : 'text-foreground'}`}
+              >
+                <Chip
+                  size="sm"
+                  variant="bordered"
+                  className={`shrink-0 ${isCurrent ? 'text-primary-foreground border-primary-foreground' : 'border-primary text-primary'}`}
+                >
+                  {t('profiles.linked')}
+                </Chip>
+                <small title={info.path} className="text-ellipsis whitespace-nowrap overflow-hidden">
+                  {info.path}
+                </small>
+              </div>
+            )}
             {extra && (
               <Progress
                 className="w-full"
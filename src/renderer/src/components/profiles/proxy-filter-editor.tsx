@@ -0,0 +1,153 @@
+import { Button, Chip, Input } from '@heroui/react'
+import React, { useEffect, useState } from 'react'
+import SettingItem from '../base/base-setting-item'
+import { previewProxyFilter } from '@renderer/utils/ipc'
+import { MdDeleteForever } from 'react-icons/md'
+import { FaPlus } from 'react-icons/fa6'
+import { useTranslation } from 'react-i18next'
+import { isValidFilterRegex } from '../../../../shared/proxyFilter'
+
+interface Props {
+  id: string
+  filter: IProxyFilter
+  inputWidth: string
+  onChange: (filter: IProxyFilter) => void
+}
+
+const ProxyFilterEditor: React.FC<Props> = (props) => {
+  const { id, filter, inputWidth, onChange } = props
+  const { t } = useTranslation()
+  const [preview, setPreview] = useState<IProxyFilterPreview>()
+  const [error, setError] = useState<string>()
+  const rename = filter.rename ?? []
+
+  useEffect(() => {
+    // 输入停止后再刷新预览
+    const timer = setTimeout(async () => {
+      try {
+        setPreview(await previewProxyFilter(id, filter))
+        setError(undefined)
+      } catch (e) {
+        setPreview(undefined)
+        setError(`${e}`)
+      }
+    }, 300)
+    return (): void => clearTimeout(timer)
+  }, [id, JSON.stringify(filter)])
+
+  const kept = preview?.proxies.filter((p) => p.name !== undefined).length ?? 0
+
+  return (
+    <>
+      <SettingItem title={t('profiles.editInfo.filter.include')}>
+        <Input
+          size="sm"
+          className={inputWidth}
+          value={filter.include ?? ''}
+          isInvalid={!isValidFilterRegex(filter.include)}
+          placeholder={t('profiles.editInfo.filter.regexPlaceholder')}
+          onValueChange={(v) => onChange({ ...filter, include: v })}
+        />
+      </SettingItem>
+      <SettingItem title={t('profiles.editInfo.filter.exclude')}>
+        <Input
+          size="sm"
+          className={inputWidth}
+          value={filter.exclude ?? ''}
+          isInvalid={!isValidFilterRegex(filter.exclude)}
+          placeholder={t('profiles.editInfo.filter.regexPlaceholder')}
+          onValueChange={(v) => onChange({ ...filter, exclude: v })}
+        />
+      </SettingItem>
+      <SettingItem title={t('profiles.editInfo.filter.rename')}>
+        <Button
+          size="sm"
+          variant="flat"
+          color="default"
+          onPress={() => {
+            onChange({ ...filter, rename: [...rename, { pattern: '', replace: '' }] })
+          }}
+        >
+          <FaPlus />
+        </Button>
+      </SettingItem>
+      {rename.map((rule, index) => (
+        <div className="flex gap-2" key={index}>
+          <Input
+            size="sm"
+            className="w-[40%]"
+            value={rule.pattern}
+            isInvalid={!isValidFilterRegex(rule.pattern)}
+            placeholder={t('profiles.editInfo.filter.pattern')}
+            onValueChange={(v) => {
+              const newRename = Array.from(rename)
+              newRename[index] = { ...rule, pattern: v }
+              onChange({ ...filter, rename: newRename })
+            }}
+          />
+          <Input
+            size="sm"
+            value={rule.replace}
+            placeholder={t('profiles.editInfo.filter.replace')}
+            onValueChange={(v) => {
+              const newRename = Array.from(rename)
+              newRename[index] = { ...rule, replace: v }
+              onChange({ ...filter, rename: newRename })
+            }}
+          />
+          <Button
+            color="warning"
+            variant="flat"
+            size="sm"
+            onPress={() => {
+              onChange({ ...filter, rename: rename.filter((_, i) => i !== index) })
+            }}
+          >
+            <MdDeleteForever className="text-lg" />
+          </Button>
+        </div>
+      ))}
+      <SettingItem title={t('profiles.editInfo.filter.preview')}>
+        {preview && (
+          <Chip size="sm" variant="flat">
+            {t('profiles.editInfo.filter.count', { kept, total: preview.proxies.length })}
+          </Chip>
+        )}
+      </SettingItem>
+      <div className="flex flex-col max-h-[200px] overflow-y-auto rounded-md bg-content2 px-2 py-1">
+        {error && <small className="select-text break-all text-danger">{error}</small>}
+        {preview?.proxies.length === 0 && (
+          <small className="text-foreground-500">{t('profiles.editInfo.filter.empty')}</small>
+        )}
+        {preview?.proxies.map((p, index) => (
+          <small
+            key={index}
+            className={`select-text break-all ${p.name === undefined ? 'text-foreground-400 line-through' : ''}`}
+          >
+            {p.name === undefined || p.name === p.original
+              ? p.original
+              : `${p.original} → ${p.name}`}
+          </small>
+        ))}
+      </div>
+      {!!preview?.droppedRules.length && (
+        <>
+          <SettingItem title={t('profiles.editInfo.filter.droppedRules')}>
+            <Chip size="sm" variant="flat" color="warning">
+              {preview.droppedRules.length}
+            </Chip>
+          </SettingItem>
+          <div className="flex flex-col max-h-[120px] overflow-y-auto rounded-md bg-content2 px-2 py-1">
+            {preview.droppedRules.map((rule, index) => (
+              <small key={index} className="select-text break-all text-foreground-400 line-through">
+                {rule}
+              </small>
+            ))}
+          </div>
+        </>
+      )}
+    </>
+  )
+}
+
+export default ProxyFilterEditor
@@ -0,0 +1,114 @@
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Input,
+  Switch
+} from '@heroui/react'
+import React, { useMemo, useRef, useState } from 'react'
+import { QRCodeCanvas } from 'qrcode.react'
+import SettingItem from '../base/base-setting-item'
+import { useTranslation } from 'react-i18next'
+
+interface Props {
+  item: IProfileItem
+  onClose: () => void
+}
+
+const SECRET_PARAMS =
+  /^(token|key|secret|password|passwd|pass|auth|sig|signature|access_?token|api_?key|uuid)$/i
+
+// 移除订阅地址中的认证信息和疑似密钥的查询参数
+function stripSecrets(url: string): string {
+  try {
+    const urlObj = new URL(url)
+    urlObj.username = ''
+    urlObj.password = ''
+    for (const key of Array.from(urlObj.searchParams.keys())) {
+      if (SECRET_PARAMS.test(key)) urlObj.searchParams.delete(key)
+    }
+    return urlObj.toString()
+  } catch {
+    return url
+  }
+}
+
+const ShareModal: React.FC<Props> = (props) => {
+  const { item, onClose } = props
+  const { t } = useTranslation()
+  const [strip, setStrip] = useState(false)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  const link = useMemo(() => {
+    const params = new URLSearchParams({
+      url: strip ? stripSecrets(item.url || '') : item.url || '',
+      name: item.name
+    })
+    return `mihomo://install-config?${params.toString()}`
+  }, [item, strip])
+
+  return (
+    <Modal
+      backdrop="blur"
+      classNames={{ backdrop: 'top-[48px]' }}
+      hideCloseButton
+      isOpen={true}
+      onOpenChange={onClose}
+      scrollBehavior="inside"
+    >
+      <ModalContent>
+        <ModalHeader className="flex app-drag">{t('profiles.share.title')}</ModalHeader>
+        <ModalBody>
+          <div className="flex justify-center">
+            <QRCodeCanvas
+              ref={canvasRef}
+              value={link}
+              size={240}
+              marginSize={2}
+              className="rounded-md"
+            />
+          </div>
+          <Input size="sm" value={link} isReadOnly />
+          <SettingItem title={t('profiles.share.stripSecrets')}>
+            <Switch size="sm" isSelected={strip} onValueChange={setStrip} />
+          </SettingItem>
+        </ModalBody>
+        <ModalFooter>
+          <Button size="sm" variant="light" onPress={onClose}>
+            {t('common.close')}
+          </Button>
+          <Button
+            size="sm"
+            variant="flat"
+            onPress={() => {
+              canvasRef.current?.toBlob(async (blob) => {
+                if (!blob) return
+                try {
+                  await navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })])
+                } catch (e) {
+                  alert(e)
+                }
+              })
+            }}
+          >
+            {t('profiles.share.copyImage')}
+          </Button>
+          <Button
+            size="sm"
+            color="primary"
+            onPress={async () => {
+              await navigator.clipboard.writeText(link)
+            }}
+          >
+            {t('profiles.share.copyLink')}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  )
+}
+
+export default ShareModal
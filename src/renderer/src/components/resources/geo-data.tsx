@@ -2,7 +2,7 @@ import { Button, Input, Switch, Tab, Tabs } from '@heroui/react'
 import SettingCard from '@renderer/components/base/base-setting-card'
 import SettingItem from '@renderer/components/base/base-setting-item'
 import { useControledMihomoConfig } from '@renderer/hooks/use-controled-mihomo-config'
-import { mihomoUpgradeGeo } from '@renderer/utils/ipc'
+import { initGeoUpdater, mihomoUpgradeGeo } from '@renderer/utils/ipc'
 import { useState } from 'react'
 import { IoMdRefresh } from 'react-icons/io'
 import { useTranslation } from 'react-i18next'
@@ -137,8 +137,9 @@ const GeoData: React.FC = () => {
         <Switch
           size="sm"
           isSelected={geoAutoUpdate}
-          onValueChange={(v) => {
-            patchControledMihomoConfig({ 'geo-auto-update': v })
+          onValueChange={async (v) => {
+            await patchControledMihomoConfig({ 'geo-auto-update': v })
+            await initGeoUpdater()
           }}
         />
       </SettingItem>
@@ -149,8 +150,9 @@ const GeoData: React.FC = () => {
             type="number"
             className="w-[100px]"
             value={geoUpdateInterval.toString()}
-            onValueChange={(v) => {
-              patchControledMihomoConfig({ 'geo-update-interval': parseInt(v) })
+            onValueChange={async (v) => {
+              await patchControledMihomoConfig({ 'geo-update-interval': parseInt(v) })
+              await initGeoUpdater()
             }}
           />
         </SettingItem>
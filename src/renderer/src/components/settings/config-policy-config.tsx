@@ -0,0 +1,53 @@
+import React, { Key, useState } from 'react'
+import SettingCard from '../base/base-setting-card'
+import SettingItem from '../base/base-setting-item'
+import { Button, Tab, Tabs } from '@heroui/react'
+import { useAppConfig } from '@renderer/hooks/use-app-config'
+import { restartCore } from '@renderer/utils/ipc'
+import ConfigPolicyExplainModal from './config-policy-explain-modal'
+import { useTranslation } from 'react-i18next'
+
+const configSections: ConfigSection[] = ['dns', 'sniffer', 'tun', 'hosts', 'ports', 'geox-url']
+
+const ConfigPolicyConfig: React.FC = () => {
+  const { t } = useTranslation()
+  const { appConfig, patchAppConfig } = useAppConfig()
+  const { configPolicy = {} } = appConfig || {}
+  const [openExplain, setOpenExplain] = useState(false)
+
+  const onChange = async (section: ConfigSection, policy: ConfigPolicy): Promise<void> => {
+    try {
+      await patchAppConfig({ configPolicy: { ...configPolicy, [section]: policy } })
+      await restartCore()
+    } catch (e) {
+      alert(e)
+    }
+  }
+
+  return (
+    <SettingCard title={t('configPolicy.title')}>
+      {openExplain && <ConfigPolicyExplainModal onClose={() => setOpenExplain(false)} />}
+      {configSections.map((section) => (
+        <SettingItem key={section} title={t(`configPolicy.section.${section}`)} divider>
+          <Tabs
+            size="sm"
+            color="primary"
+            selectedKey={configPolicy[section] ?? 'merge'}
+            onSelectionChange={(key: Key) => onChange(section, key as ConfigPolicy)}
+          >
+            <Tab key="app" title={t('configPolicy.policy.app')} />
+            <Tab key="merge" title={t('configPolicy.policy.merge')} />
+            <Tab key="profile" title={t('configPolicy.policy.profile')} />
+          </Tabs>
+        </SettingItem>
+      ))}
+      <SettingItem title={t('configPolicy.explain')}>
+        <Button size="sm" variant="flat" onPress={() => setOpenExplain(true)}>
+          {t('configPolicy.view')}
+        </Button>
+      </SettingItem>
+    </SettingCard>
+  )
+}
+
+export default ConfigPolicyConfig
@@ -0,0 +1,92 @@
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Chip,
+  Divider
+} from '@heroui/react'
+import React from 'react'
+import useSWR from 'swr'
+import { getConfigPolicyExplain } from '@renderer/utils/ipc'
+import { useTranslation } from 'react-i18next'
+
+interface Props {
+  onClose: () => void
+}
+
+const sourceColor: Record<ConfigSource, 'primary' | 'default' | 'warning'> = {
+  app: 'primary',
+  profile: 'default',
+  profileSettings: 'warning'
+}
+
+const ConfigPolicyExplainModal: React.FC<Props> = (props) => {
+  const { onClose } = props
+  const { t } = useTranslation()
+  const { data: explain = [] } = useSWR('getConfigPolicyExplain', getConfigPolicyExplain)
+
+  return (
+    <Modal
+      backdrop="blur"
+      size="3xl"
+      classNames={{ backdrop: 'top-[48px]' }}
+      hideCloseButton
+      isOpen={true}
+      onOpenChange={onClose}
+      scrollBehavior="inside"
+    >
+      <ModalContent>
+        <ModalHeader className="flex flex-col app-drag">
+          {t('configPolicy.explain')}
+          <small className="text-foreground-500 font-normal">
+            {t('configPolicy.explainDescription')}
+          </small>
+        </ModalHeader>
+        <ModalBody>
+          {explain.map((section, index) => (
+            <div key={section.section} className="flex flex-col gap-1">
+              {index > 0 && <Divider className="mb-1" />}
+              <div className="flex items-center gap-2">
+                <span className="font-bold">{t(`configPolicy.section.${section.section}`)}</span>
+                <Chip size="sm" variant="flat">
+                  {t(`configPolicy.policy.${section.policy}`)}
+                </Chip>
+              </div>
+              {section.values.length === 0 && (
+                <small className="text-foreground-500">{t('configPolicy.notSet')}</small>
+              )}
+              {section.values.map((value) => (
+                <div key={value.path} className="flex items-center justify-between gap-2">
+                  <small className="select-text break-all">
+                    <span className="font-mono">{value.path}</span>
+                    <span className="ml-2 text-foreground-500">
+                      {typeof value.value === 'string' ? value.value : JSON.stringify(value.value)}
+                    </span>
+                  </small>
+                  <Chip
+                    size="sm"
+                    variant="flat"
+                    className="shrink-0"
+                    color={sourceColor[value.source]}
+                  >
+                    {t(`configPolicy.source.${value.source}`)}
+                  </Chip>
+                </div>
+              ))}
+            </div>
+          ))}
+        </ModalBody>
+        <ModalFooter>
+          <Button size="sm" variant="light" onPress={onClose}>
+            {t('common.close')}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  )
+}
+
+export default ConfigPolicyExplainModal
@@ -5,7 +5,6 @@ import { Button, Input, Select, SelectItem, Switch, Tooltip } from '@heroui/reac
 import { useAppConfig } from '@renderer/hooks/use-app-config'
 import debounce from '@renderer/utils/debounce'
 import { getGistUrl, restartCore } from '@renderer/utils/ipc'
-import { MdDeleteForever } from 'react-icons/md'
 import { BiCopy } from 'react-icons/bi'
 import { IoIosHelpCircle } from 'react-icons/io'
 import { platform, version } from '@renderer/utils/init'
@@ -18,16 +17,17 @@ const MihomoConfig: React.FC = () => {
     diffWorkDir = false,
     delayTestConcurrency,
     delayTestTimeout,
+    overrideScriptTimeout,
+    overrideScriptMemoryLimit,
     githubToken = '',
     autoCloseConnection = true,
-    pauseSSID = [],
     delayTestUrl,
     userAgent,
+    maxProfileHistory,
     mihomoCpuPriority = 'PRIORITY_NORMAL',
     proxyCols = 'auto'
   } = appConfig || {}
   const [url, setUrl] = useState(delayTestUrl)
-  const [pauseSSIDInput, setPauseSSIDInput] = useState(pauseSSID)
   const setUrlDebounce = debounce((v: string) => {
     patchAppConfig({ delayTestUrl: v })
   }, 500)
@@ -49,6 +49,21 @@ const MihomoConfig: React.FC = () => {
           }}
         ></Input>
       </SettingItem>
+      <SettingItem title={t('mihomo.maxProfileHistory')} divider>
+        <Input
+          type="number"
+          size="sm"
+          className="w-[60%]"
+          value={maxProfileHistory?.toString()}
+          placeholder={t('mihomo.maxProfileHistoryPlaceholder')}
+          onValueChange={(v) => {
+            // 0 表示不保存历史版本
+            patchAppConfig({
+              maxProfileHistory: v === '' ? undefined : Math.max(parseInt(v) || 0, 0)
+            })
+          }}
+        />
+      </SettingItem>
       <SettingItem title={t('mihomo.delayTest.url')} divider>
         <Input
           size="sm"
@@ -85,6 +100,30 @@ const MihomoConfig: React.FC = () => {
           }}
         />
       </SettingItem>
+      <SettingItem title={t('mihomo.overrideScript.timeout')} divider>
+        <Input
+          type="number"
+          size="sm"
+          className="w-[60%]"
+          value={overrideScriptTimeout?.toString()}
+          placeholder={t('mihomo.overrideScript.timeoutPlaceholder')}
+          onValueChange={(v) => {
+            patchAppConfig({ overrideScriptTimeout: parseInt(v) || undefined })
+          }}
+        />
+      </SettingItem>
+      <SettingItem title={t('mihomo.overrideScript.memoryLimit')} divider>
+        <Input
+          type="number"
+          size="sm"
+          className="w-[60%]"
+          value={overrideScriptMemoryLimit?.toString()}
+          placeholder={t('mihomo.overrideScript.memoryLimitPlaceholder')}
+          onValueChange={(v) => {
+            patchAppConfig({ overrideScriptMemoryLimit: parseInt(v) || undefined })
+          }}
+        />
+      </SettingItem>
       <SettingItem
         title={t('mihomo.gist.title')}
         actions={
@@ -193,7 +232,7 @@ const MihomoConfig: React.FC = () => {
       </SettingItem>
 
 
-      <SettingItem title={t('mihomo.autoCloseConnection')} divider>
+      <SettingItem title={t('mihomo.autoCloseConnection')}>
         <Switch
           size="sm"
           isSelected={autoCloseConnection}
@@ -202,51 +241,6 @@ const MihomoConfig: React.FC = () => {
           }}
         />
       </SettingItem>
-      <SettingItem title={t('mihomo.pauseSSID.title')}>
-        {pauseSSIDInput.join('') !== pauseSSID.join('') && (
-          <Button
-            size="sm"
-            color="primary"
-            onPress={() => {
-              patchAppConfig({ pauseSSID: pauseSSIDInput })
-            }}
-          >
-            {t('common.confirm')}
-          </Button>
-        )}
-      </SettingItem>
-      <div className="flex flex-col items-stretch mt-2">
-        {[...pauseSSIDInput, ''].map((ssid, index) => {
-          return (
-            <div key={index} className="flex mb-2">
-              <Input
-                size="sm"
-                fullWidth
-                placeholder="SSID"
-                value={ssid || ''}
-                onValueChange={(v) => {
-                  if (index === pauseSSIDInput.length) {
-                    setPauseSSIDInput([...pauseSSIDInput, v])
-                  } else {
-                    setPauseSSIDInput(pauseSSIDInput.map((a, i) => (i === index ? v : a)))
-                  }
-                }}
-              />
-              {index < pauseSSIDInput.length && (
-                <Button
-                  className="ml-2"
-                  size="sm"
-                  variant="flat"
-                  color="warning"
-                  onPress={() => setPauseSSIDInput(pauseSSIDInput.filter((_, i) => i !== index))}
-                >
-                  <MdDeleteForever className="text-lg" />
-                </Button>
-              )}
-            </div>
-          )
-        })}
-      </div>
     </SettingCard>
   )
 }
@@ -0,0 +1,139 @@
+import React, { useState } from 'react'
+import SettingCard from '../base/base-setting-card'
+import SettingItem from '../base/base-setting-item'
+import { Button, Chip, Divider, Switch } from '@heroui/react'
+import { MdDeleteForever, MdEditDocument } from 'react-icons/md'
+import useSWR from 'swr'
+import { useAppConfig } from '@renderer/hooks/use-app-config'
+import { getNetworkInfo, setNetworkRules } from '@renderer/utils/ipc'
+import NetworkRuleEditModal from './network-rule-edit-modal'
+import { useTranslation } from 'react-i18next'
+
+const NetworkRuleConfig: React.FC = () => {
+  const { t } = useTranslation()
+  const { appConfig, mutateAppConfig } = useAppConfig()
+  const { networkRules = [], activeNetworkRule } = appConfig || {}
+  const { data: info, mutate: mutateInfo } = useSWR('getNetworkInfo', getNetworkInfo, {
+    revalidateOnFocus: false
+  })
+  const [editing, setEditing] = useState<INetworkRule>()
+
+  const saveRules = async (list: INetworkRule[]): Promise<void> => {
+    try {
+      await setNetworkRules(list)
+    } catch (e) {
+      alert(e)
+    } finally {
+      mutateAppConfig()
+    }
+  }
+
+  return (
+    <SettingCard title={t('networkRule.title')}>
+      {editing && (
+        <NetworkRuleEditModal
+          item={editing}
+          info={info}
+          onClose={() => setEditing(undefined)}
+          onSave={async (item) => {
+            const exists = networkRules.some((i) => i.id === item.id)
+            await saveRules(
+              exists
+                ? networkRules.map((i) => (i.id === item.id ? item : i))
+                : [...networkRules, item]
+            )
+          }}
+        />
+      )}
+      <SettingItem title={t('networkRule.current')} divider>
+        <Button size="sm" variant="flat" onPress={() => mutateInfo()}>
+          {t('networkRule.refresh')}
+        </Button>
+      </SettingItem>
+      {info && (
+        <div className="flex flex-col text-foreground-500 text-sm select-text">
+          <span>
+            {t('networkRule.match.ssid')}: {info.ssid || '-'}
+          </span>
+          <span>
+            {t('networkRule.match.gateway')}: {info.gateway || '-'}
+          </span>
+          <span>
+            {t('networkRule.match.interface')}: {info.interface || '-'}
+          </span>
+          <span>
+            {t('networkRule.match.dnsSuffix')}: {info.dnsSuffix.join(', ') || '-'}
+          </span>
+          <Divider className="my-2" />
+        </div>
+      )}
+      <SettingItem title={t('networkRule.list')} divider={networkRules.length > 0}>
+        <Button
+          size="sm"
+          color="primary"
+          onPress={() => {
+            setEditing({
+              id: new Date().getTime().toString(16),
+              name: '',
+              enable: true,
+              match: 'ssid',
+              value: ''
+            })
+          }}
+        >
+          {t('networkRule.add')}
+        </Button>
+      </SettingItem>
+      {networkRules.map((item, index) => (
+        <div key={item.id}>
+          <div className="flex justify-between items-center gap-2">
+            <div className="flex flex-col overflow-hidden">
+              <div className="flex items-center gap-1">
+                <span className="text-ellipsis whitespace-nowrap overflow-hidden">{item.name}</span>
+                {activeNetworkRule === item.id && (
+                  <Chip size="sm" variant="flat" color="primary">
+                    {t('networkRule.active')}
+                  </Chip>
+                )}
+              </div>
+              <small className="text-foreground-500">
+                {t(`networkRule.match.${item.match}`)} · {item.value}
+              </small>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <Button
+                isIconOnly
+                size="sm"
+                variant="light"
+                title={t('common.edit')}
+                onPress={() => setEditing(item)}
+              >
+                <MdEditDocument className="text-lg" />
+              </Button>
+              <Button
+                isIconOnly
+                size="sm"
+                variant="light"
+                color="warning"
+                title={t('common.delete')}
+                onPress={() => saveRules(networkRules.filter((i) => i.id !== item.id))}
+              >
+                <MdDeleteForever className="text-lg" />
+              </Button>
+              <Switch
+                size="sm"
+                isSelected={item.enable}
+                onValueChange={(v) =>
+                  saveRules(networkRules.map((i) => (i.id === item.id ? { ...i, enable: v } : i)))
+                }
+              />
+            </div>
+          </div>
+          {index < networkRules.length - 1 && <Divider className="my-2" />}
+        </div>
+      ))}
+    </SettingCard>
+  )
+}
+
+export default NetworkRuleConfig
@@ -0,0 +1,222 @@
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Input,
+  Select,
+  SelectItem
+} from '@heroui/react'
+import React, { useState } from 'react'
+import SettingItem from '../base/base-setting-item'
+import { useProfileConfig } from '@renderer/hooks/use-profile-config'
+import { useTranslation } from 'react-i18next'
+
+interface Props {
+  item: INetworkRule
+  info?: INetworkInfo
+  onSave: (item: INetworkRule) => Promise<void>
+  onClose: () => void
+}
+
+const matches: NetworkMatchType[] = ['ssid', 'gateway', 'interface', 'dnsSuffix']
+const modes: OutboundMode[] = ['rule', 'global', 'direct']
+
+type SwitchState = 'keep' | 'on' | 'off'
+
+function toSwitchState(value?: boolean): SwitchState {
+  if (value === undefined) return 'keep'
+  return value ? 'on' : 'off'
+}
+
+function fromSwitchState(state: SwitchState): boolean | undefined {
+  if (state === 'keep') return undefined
+  return state === 'on'
+}
+
+const NetworkRuleEditModal: React.FC<Props> = (props) => {
+  const { item, info, onSave, onClose } = props
+  const { t } = useTranslation()
+  const { profileConfig } = useProfileConfig()
+  const { items: profileItems = [] } = profileConfig || {}
+  const [values, setValues] = useState(item)
+
+  // 当前网络中对应的值, 方便直接填入
+  const current = ((): string | undefined => {
+    if (!info) return undefined
+    switch (values.match) {
+      case 'ssid':
+        return info.ssid
+      case 'gateway':
+        return info.gateway
+      case 'interface':
+        return info.interface
+      case 'dnsSuffix':
+        return info.dnsSuffix[0]
+    }
+  })()
+
+  return (
+    <Modal
+      backdrop="blur"
+      classNames={{ backdrop: 'top-[48px]' }}
+      hideCloseButton
+      isOpen={true}
+      onOpenChange={onClose}
+      scrollBehavior="inside"
+    >
+      <ModalContent>
+        <ModalHeader className="flex app-drag">{t('networkRule.edit.title')}</ModalHeader>
+        <ModalBody>
+          <SettingItem title={t('networkRule.edit.name')}>
+            <Input
+              size="sm"
+              className="w-[60%]"
+              value={values.name}
+              onValueChange={(v) => setValues({ ...values, name: v })}
+            />
+          </SettingItem>
+          <SettingItem title={t('networkRule.edit.match')}>
+            <Select
+              size="sm"
+              className="w-[60%]"
+              aria-label={t('networkRule.edit.match')}
+              selectedKeys={new Set([values.match])}
+              disallowEmptySelection
+              onSelectionChange={(v) =>
+                setValues({ ...values, match: Array.from(v)[0] as NetworkMatchType })
+              }
+            >
+              {matches.map((match) => (
+                <SelectItem key={match}>{t(`networkRule.match.${match}`)}</SelectItem>
+              ))}
+            </Select>
+          </SettingItem>
+          <SettingItem title={t('networkRule.edit.value')}>
+            <div className="flex w-[60%] gap-2">
+              <Input
+                size="sm"
+                value={values.value}
+                placeholder={current}
+                onValueChange={(v) => setValues({ ...values, value: v })}
+              />
+              {current && (
+                <Button
+                  size="sm"
+                  variant="flat"
+                  onPress={() => setValues({ ...values, value: current })}
+                >
+                  {t('networkRule.edit.useCurrent')}
+                </Button>
+              )}
+            </div>
+          </SettingItem>
+          <SettingItem title={t('networkRule.edit.profile')}>
+            <Select
+              size="sm"
+              className="w-[60%]"
+              aria-label={t('networkRule.edit.profile')}
+              placeholder={t('networkRule.keep')}
+              selectedKeys={values.profile ? new Set([values.profile]) : new Set()}
+              onSelectionChange={(v) =>
+                setValues({ ...values, profile: (Array.from(v)[0] as string) || undefined })
+              }
+            >
+              {profileItems.map((profile) => (
+                <SelectItem key={profile.id}>{profile.name}</SelectItem>
+              ))}
+            </Select>
+          </SettingItem>
+          <SettingItem title={t('networkRule.edit.mode')}>
+            <Select
+              size="sm"
+              className="w-[60%]"
+              aria-label={t('networkRule.edit.mode')}
+              placeholder={t('networkRule.keep')}
+              selectedKeys={values.mode ? new Set([values.mode]) : new Set()}
+              onSelectionChange={(v) =>
+                setValues({ ...values, mode: (Array.from(v)[0] as OutboundMode) || undefined })
+              }
+            >
+              {modes.map((mode) => (
+                <SelectItem key={mode}>{t(`common.notification.${mode}Mode`)}</SelectItem>
+              ))}
+            </Select>
+          </SettingItem>
+          <SettingItem title={t('networkRule.edit.sysProxy')}>
+            <Select
+              size="sm"
+              className="w-[60%]"
+              aria-label={t('networkRule.edit.sysProxy')}
+              selectedKeys={new Set([toSwitchState(values.sysProxy)])}
+              disallowEmptySelection
+              onSelectionChange={(v) =>
+                setValues({ ...values, sysProxy: fromSwitchState(Array.from(v)[0] as SwitchState) })
+              }
+            >
+              <SelectItem key="keep">{t('networkRule.keep')}</SelectItem>
+              <SelectItem key="on">{t('networkRule.on')}</SelectItem>
+              <SelectItem key="off">{t('networkRule.off')}</SelectItem>
+            </Select>
+          </SettingItem>
+          <SettingItem title={t('networkRule.edit.tun')}>
+            <Select
+              size="sm"
+              className="w-[60%]"
+              aria-label={t('networkRule.edit.tun')}
+              selectedKeys={new Set([toSwitchState(values.tun)])}
+              disallowEmptySelection
+              onSelectionChange={(v) =>
+                setValues({ ...values, tun: fromSwitchState(Array.from(v)[0] as SwitchState) })
+              }
+            >
+              <SelectItem key="keep">{t('networkRule.keep')}</SelectItem>
+              <SelectItem key="on">{t('networkRule.on')}</SelectItem>
+              <SelectItem key="off">{t('networkRule.off')}</SelectItem>
+            </Select>
+          </SettingItem>
+          <SettingItem title={t('networkRule.edit.proxy')}>
+            <div className="flex w-[60%] gap-2">
+              <Input
+                size="sm"
+                value={values.group || ''}
+                placeholder={t('networkRule.edit.group')}
+                onValueChange={(v) => setValues({ ...values, group: v || undefined })}
+              />
+              <Input
+                size="sm"
+                value={values.proxy || ''}
+                placeholder={t('networkRule.edit.proxyName')}
+                onValueChange={(v) => setValues({ ...values, proxy: v || undefined })}
+              />
+            </div>
+          </SettingItem>
+        </ModalBody>
+        <ModalFooter>
+          <Button size="sm" variant="light" onPress={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            size="sm"
+            color="primary"
+            isDisabled={!values.value.trim() || !!values.group !== !!values.proxy}
+            onPress={async () => {
+              await onSave({
+                ...values,
+                value: values.value.trim(),
+                name: values.name.trim() || values.value.trim()
+              })
+              onClose()
+            }}
+          >
+            {t('common.save')}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  )
+}
+
+export default NetworkRuleEditModal
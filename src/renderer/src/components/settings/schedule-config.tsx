@@ -0,0 +1,148 @@
+import React, { useState } from 'react'
+import SettingCard from '../base/base-setting-card'
+import SettingItem from '../base/base-setting-item'
+import { Button, Divider, Switch } from '@heroui/react'
+import { MdDeleteForever, MdEditDocument } from 'react-icons/md'
+import { FaPlay } from 'react-icons/fa6'
+import useSWR from 'swr'
+import { useAppConfig } from '@renderer/hooks/use-app-config'
+import { getScheduleNextRuns, runSchedule, setSchedules } from '@renderer/utils/ipc'
+import dayjs from '@renderer/utils/dayjs'
+import ScheduleEditModal from './schedule-edit-modal'
+import ScheduleLogModal from './schedule-log-modal'
+import { useTranslation } from 'react-i18next'
+
+const ScheduleConfig: React.FC = () => {
+  const { t } = useTranslation()
+  const { appConfig, mutateAppConfig } = useAppConfig()
+  const { schedules = [] } = appConfig || {}
+  const { data: nextRuns = {}, mutate: mutateNextRuns } = useSWR(
+    ['getScheduleNextRuns', schedules],
+    () => getScheduleNextRuns()
+  )
+  const [editing, setEditing] = useState<IScheduleItem>()
+  const [openLog, setOpenLog] = useState(false)
+  const [running, setRunning] = useState<string>()
+
+  const saveSchedules = async (list: IScheduleItem[]): Promise<void> => {
+    try {
+      await setSchedules(list)
+    } catch (e) {
+      alert(e)
+    } finally {
+      mutateAppConfig()
+      mutateNextRuns()
+    }
+  }
+
+  return (
+    <SettingCard title={t('schedule.title')}>
+      {editing && (
+        <ScheduleEditModal
+          item={editing}
+          onClose={() => setEditing(undefined)}
+          onSave={async (item) => {
+            const exists = schedules.some((i) => i.id === item.id)
+            await saveSchedules(
+              exists ? schedules.map((i) => (i.id === item.id ? item : i)) : [...schedules, item]
+            )
+          }}
+        />
+      )}
+      {openLog && <ScheduleLogModal onClose={() => setOpenLog(false)} />}
+      <SettingItem title={t('schedule.list')} divider={schedules.length > 0}>
+        <div className="flex gap-2">
+          <Button size="sm" variant="flat" onPress={() => setOpenLog(true)}>
+            {t('schedule.log.title')}
+          </Button>
+          <Button
+            size="sm"
+            color="primary"
+            onPress={() => {
+              setEditing({
+                id: new Date().getTime().toString(16),
+                name: '',
+                cron: '',
+                enable: true,
+                action: 'changeProfile'
+              })
+            }}
+          >
+            {t('schedule.add')}
+          </Button>
+        </div>
+      </SettingItem>
+      {schedules.map((item, index) => (
+        <div key={item.id}>
+          <div className="flex justify-between items-center gap-2">
+            <div className="flex flex-col overflow-hidden">
+              <span className="text-ellipsis whitespace-nowrap overflow-hidden">{item.name}</span>
+              <small className="text-foreground-500">
+                {item.cron} · {t(`schedule.action.${item.action}`)}
+              </small>
+              {item.enable && nextRuns[item.id]?.length > 0 && (
+                <small className="text-foreground-500">
+                  {t('schedule.nextRuns', {
+                    time: nextRuns[item.id]
+                      .map((time) => dayjs(time).format('MM-DD HH:mm'))
+                      .join(', ')
+                  })}
+                </small>
+              )}
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <Button
+                isIconOnly
+                size="sm"
+                variant="light"
+                title={t('schedule.run')}
+                isLoading={running === item.id}
+                onPress={async () => {
+                  setRunning(item.id)
+                  try {
+                    await runSchedule(item.id)
+                  } catch (e) {
+                    alert(e)
+                  } finally {
+                    setRunning(undefined)
+                  }
+                }}
+              >
+                <FaPlay />
+              </Button>
+              <Button
+                isIconOnly
+                size="sm"
+                variant="light"
+                title={t('common.edit')}
+                onPress={() => setEditing(item)}
+              >
+                <MdEditDocument className="text-lg" />
+              </Button>
+              <Button
+                isIconOnly
+                size="sm"
+                variant="light"
+                color="warning"
+                title={t('common.delete')}
+                onPress={() => saveSchedules(schedules.filter((i) => i.id !== item.id))}
+              >
+                <MdDeleteForever className="text-lg" />
+              </Button>
+              <Switch
+                size="sm"
+                isSelected={item.enable}
+                onValueChange={(v) =>
+                  saveSchedules(schedules.map((i) => (i.id === item.id ? { ...i, enable: v } : i)))
+                }
+              />
+            </div>
+          </div>
+          {index < schedules.length - 1 && <Divider className="my-2" />}
+        </div>
+      ))}
+    </SettingCard>
+  )
+}
+
+export default ScheduleConfig
@@ -0,0 +1,151 @@
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Input,
+  Select,
+  SelectItem,
+  Switch
+} from '@heroui/react'
+import React, { useState } from 'react'
+import SettingItem from '../base/base-setting-item'
+import { useProfileConfig } from '@renderer/hooks/use-profile-config'
+import { isValidCron } from 'cron-validator'
+import { useTranslation } from 'react-i18next'
+
+interface Props {
+  item: IScheduleItem
+  onSave: (item: IScheduleItem) => Promise<void>
+  onClose: () => void
+}
+
+const actions: ScheduleAction[] = ['changeProfile', 'setMode', 'setSysProxy', 'setTun']
+const modes: OutboundMode[] = ['rule', 'global', 'direct']
+
+const ScheduleEditModal: React.FC<Props> = (props) => {
+  const { item, onSave, onClose } = props
+  const { t } = useTranslation()
+  const { profileConfig } = useProfileConfig()
+  const { items: profileItems = [] } = profileConfig || {}
+  const [values, setValues] = useState(item)
+  const cronValid = isValidCron(values.cron, { seconds: false })
+
+  return (
+    <Modal
+      backdrop="blur"
+      classNames={{ backdrop: 'top-[48px]' }}
+      hideCloseButton
+      isOpen={true}
+      onOpenChange={onClose}
+      scrollBehavior="inside"
+    >
+      <ModalContent>
+        <ModalHeader className="flex app-drag">{t('schedule.edit.title')}</ModalHeader>
+        <ModalBody>
+          <SettingItem title={t('schedule.edit.name')}>
+            <Input
+              size="sm"
+              className="w-[60%]"
+              value={values.name}
+              onValueChange={(v) => setValues({ ...values, name: v })}
+            />
+          </SettingItem>
+          <SettingItem title={t('schedule.edit.cron')}>
+            <Input
+              size="sm"
+              className="w-[60%]"
+              value={values.cron}
+              placeholder="0 9 * * 1-5"
+              isInvalid={!!values.cron && !cronValid}
+              onValueChange={(v) => setValues({ ...values, cron: v })}
+            />
+          </SettingItem>
+          <SettingItem title={t('schedule.edit.action')}>
+            <Select
+              size="sm"
+              className="w-[60%]"
+              aria-label={t('schedule.edit.action')}
+              selectedKeys={new Set([values.action])}
+              disallowEmptySelection
+              onSelectionChange={(v) =>
+                setValues({ ...values, action: Array.from(v)[0] as ScheduleAction })
+              }
+            >
+              {actions.map((action) => (
+                <SelectItem key={action}>{t(`schedule.action.${action}`)}</SelectItem>
+              ))}
+            </Select>
+          </SettingItem>
+          {values.action === 'changeProfile' && (
+            <SettingItem title={t('schedule.edit.profile')}>
+              <Select
+                size="sm"
+                className="w-[60%]"
+                aria-label={t('schedule.edit.profile')}
+                selectedKeys={values.profile ? new Set([values.profile]) : new Set()}
+                onSelectionChange={(v) =>
+                  setValues({ ...values, profile: Array.from(v)[0] as string })
+                }
+              >
+                {profileItems.map((profile) => (
+                  <SelectItem key={profile.id}>{profile.name}</SelectItem>
+                ))}
+              </Select>
+            </SettingItem>
+          )}
+          {values.action === 'setMode' && (
+            <SettingItem title={t('schedule.edit.mode')}>
+              <Select
+                size="sm"
+                className="w-[60%]"
+                aria-label={t('schedule.edit.mode')}
+                selectedKeys={values.mode ? new Set([values.mode]) : new Set()}
+                onSelectionChange={(v) =>
+                  setValues({ ...values, mode: Array.from(v)[0] as OutboundMode })
+                }
+              >
+                {modes.map((mode) => (
+                  <SelectItem key={mode}>{t(`common.notification.${mode}Mode`)}</SelectItem>
+                ))}
+              </Select>
+            </SettingItem>
+          )}
+          {(values.action === 'setSysProxy' || values.action === 'setTun') && (
+            <SettingItem title={t('schedule.edit.enable')}>
+              <Switch
+                size="sm"
+                isSelected={values.value ?? false}
+                onValueChange={(v) => setValues({ ...values, value: v })}
+              />
+            </SettingItem>
+          )}
+        </ModalBody>
+        <ModalFooter>
+          <Button size="sm" variant="light" onPress={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            size="sm"
+            color="primary"
+            isDisabled={
+              !cronValid ||
+              (values.action === 'changeProfile' && !values.profile) ||
+              (values.action === 'setMode' && !values.mode)
+            }
+            onPress={async () => {
+              await onSave({ ...values, name: values.name.trim() || values.cron })
+              onClose()
+            }}
+          >
+            {t('common.save')}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  )
+}
+
+export default ScheduleEditModal
@@ -0,0 +1,90 @@
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Chip,
+  Divider
+} from '@heroui/react'
+import React, { useEffect } from 'react'
+import useSWR from 'swr'
+import { clearScheduleLogs, getScheduleLogs } from '@renderer/utils/ipc'
+import dayjs from '@renderer/utils/dayjs'
+import { useTranslation } from 'react-i18next'
+
+interface Props {
+  onClose: () => void
+}
+
+const ScheduleLogModal: React.FC<Props> = (props) => {
+  const { onClose } = props
+  const { t } = useTranslation()
+  const { data: logs = [], mutate } = useSWR('getScheduleLogs', getScheduleLogs)
+
+  useEffect(() => {
+    window.electron.ipcRenderer.on('scheduleLogUpdated', () => {
+      mutate()
+    })
+    return (): void => {
+      window.electron.ipcRenderer.removeAllListeners('scheduleLogUpdated')
+    }
+  }, [])
+
+  return (
+    <Modal
+      backdrop="blur"
+      classNames={{ backdrop: 'top-[48px]' }}
+      hideCloseButton
+      isOpen={true}
+      onOpenChange={onClose}
+      scrollBehavior="inside"
+    >
+      <ModalContent>
+        <ModalHeader className="flex app-drag">{t('schedule.log.title')}</ModalHeader>
+        <ModalBody>
+          {logs.length === 0 && (
+            <div className="text-center text-foreground-500">{t('schedule.log.empty')}</div>
+          )}
+          {logs.map((log, index) => (
+            <div key={`${log.id}-${log.time}-${index}`}>
+              <div className="flex justify-between items-center gap-2">
+                <span className="text-ellipsis whitespace-nowrap overflow-hidden">{log.name}</span>
+                <Chip size="sm" variant="flat" color={log.success ? 'success' : 'danger'}>
+                  {log.success ? t('schedule.log.success') : t('schedule.log.failed')}
+                </Chip>
+              </div>
+              <small className="text-foreground-500">
+                {dayjs(log.time).format('YYYY-MM-DD HH:mm:ss')} ·{' '}
+                {t(`schedule.action.${log.action}`)}
+              </small>
+              {log.error && (
+                <small className="block break-all select-text text-danger">{log.error}</small>
+              )}
+              <Divider className="mt-2" />
+            </div>
+          ))}
+        </ModalBody>
+        <ModalFooter>
+          <Button
+            size="sm"
+            variant="light"
+            color="danger"
+            onPress={async () => {
+              await clearScheduleLogs()
+              mutate()
+            }}
+          >
+            {t('schedule.log.clear')}
+          </Button>
+          <Button size="sm" variant="light" onPress={onClose}>
+            {t('common.close')}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  )
+}
+
+export default ScheduleLogModal
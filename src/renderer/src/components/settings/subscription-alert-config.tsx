@@ -0,0 +1,99 @@
+import React, { useState } from 'react'
+import SettingCard from '@renderer/components/base/base-setting-card'
+import SettingItem from '@renderer/components/base/base-setting-item'
+import { Input, Switch } from '@heroui/react'
+import { checkSubscriptionAlerts } from '@renderer/utils/ipc'
+import { useAppConfig } from '@renderer/hooks/use-app-config'
+import debounce from '@renderer/utils/debounce'
+import { useTranslation } from 'react-i18next'
+
+const SubscriptionAlertConfig: React.FC = () => {
+  const { t } = useTranslation()
+  const { appConfig, patchAppConfig } = useAppConfig()
+  const {
+    subscriptionAlert = true,
+    subscriptionAlertTraffic = 10,
+    subscriptionAlertExpire = 3,
+    subscriptionAlertInTray = false,
+    profileDiffNotify = true
+  } = appConfig || {}
+
+  const [trafficValue, setTrafficValue] = useState(subscriptionAlertTraffic)
+  const [expireValue, setExpireValue] = useState(subscriptionAlertExpire)
+  const setTraffic = debounce(async (v: number) => {
+    await patchAppConfig({ subscriptionAlertTraffic: v })
+    await checkSubscriptionAlerts()
+  }, 500)
+  const setExpire = debounce(async (v: number) => {
+    await patchAppConfig({ subscriptionAlertExpire: v })
+    await checkSubscriptionAlerts()
+  }, 500)
+
+  return (
+    <SettingCard title={t('profiles.alert.title')}>
+      <SettingItem title={t('profiles.alert.enable')} divider>
+        <Switch
+          size="sm"
+          isSelected={subscriptionAlert}
+          onValueChange={async (v) => {
+            await patchAppConfig({ subscriptionAlert: v })
+            await checkSubscriptionAlerts()
+          }}
+        />
+      </SettingItem>
+      {subscriptionAlert && (
+        <>
+          <SettingItem title={t('profiles.alert.traffic')} divider>
+            <Input
+              size="sm"
+              type="number"
+              className="w-[100px]"
+              endContent="%"
+              value={trafficValue.toString()}
+              onValueChange={(v) => {
+                const num = Math.min(Math.max(parseInt(v) || 0, 0), 100)
+                setTrafficValue(num)
+                setTraffic(num)
+              }}
+            />
+          </SettingItem>
+          <SettingItem title={t('profiles.alert.expire')} divider>
+            <Input
+              size="sm"
+              type="number"
+              className="w-[100px]"
+              endContent={t('profiles.alert.daysUnit')}
+              value={expireValue.toString()}
+              onValueChange={(v) => {
+                const num = Math.max(parseInt(v) || 0, 0)
+                setExpireValue(num)
+                setExpire(num)
+              }}
+            />
+          </SettingItem>
+          <SettingItem title={t('profiles.alert.inTray')} divider>
+            <Switch
+              size="sm"
+              isSelected={subscriptionAlertInTray}
+              onValueChange={async (v) => {
+                await patchAppConfig({ subscriptionAlertInTray: v })
+                await checkSubscriptionAlerts()
+              }}
+            />
+          </SettingItem>
+        </>
+      )}
+      <SettingItem title={t('profiles.diff.notify')}>
+        <Switch
+          size="sm"
+          isSelected={profileDiffNotify}
+          onValueChange={async (v) => {
+            await patchAppConfig({ profileDiffNotify: v })
+          }}
+        />
+      </SettingItem>
+    </SettingCard>
+  )
+}
+
+export default SubscriptionAlertConfig
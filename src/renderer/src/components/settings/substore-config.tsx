@@ -3,6 +3,7 @@ import SettingCard from '@renderer/components/base/base-setting-card'
 import SettingItem from '@renderer/components/base/base-setting-item'
 import { Button, Input, Switch } from '@heroui/react'
 import {
+  initSubStoreJobs,
   startSubStoreFrontendServer,
   startSubStoreBackendServer,
   stopSubStoreFrontendServer,
@@ -142,7 +143,7 @@ const SubStoreConfig: React.FC = () => {
                           await patchAppConfig({
                             subStoreBackendSyncCron: subStoreBackendSyncCronValue
                           })
-                          new Notification(t('common.notification.restartRequired'))
+                          await initSubStoreJobs()
                         } else {
                           alert(t('common.error.invalidCron'))
                         }
@@ -175,7 +176,7 @@ const SubStoreConfig: React.FC = () => {
                           await patchAppConfig({
                             subStoreBackendDownloadCron: subStoreBackendDownloadCronValue
                           })
-                          new Notification(t('common.notification.restartRequired'))
+                          await initSubStoreJobs()
                         } else {
                           alert(t('common.error.invalidCron'))
                         }
@@ -208,7 +209,7 @@ const SubStoreConfig: React.FC = () => {
                           await patchAppConfig({
                             subStoreBackendUploadCron: subStoreBackendUploadCronValue
                           })
-                          new Notification(t('common.notification.restartRequired'))
+                          await initSubStoreJobs()
                         } else {
                           alert(t('common.error.invalidCron'))
                         }
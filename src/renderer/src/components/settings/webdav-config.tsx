@@ -2,26 +2,29 @@ import React, { useState } from 'react'
 import SettingCard from '../base/base-setting-card'
 import SettingItem from '../base/base-setting-item'
 import { Button, Input, Select, SelectItem } from '@heroui/react'
-import { listWebdavBackups, webdavBackup } from '@renderer/utils/ipc'
+import { listWebdavBackups, setWebdavBackupCron, webdavBackup } from '@renderer/utils/ipc'
 import WebdavRestoreModal from './webdav-restore-modal'
 import debounce from '@renderer/utils/debounce'
 import { useAppConfig } from '@renderer/hooks/use-app-config'
+import { isValidCron } from 'cron-validator'
 import { useTranslation } from 'react-i18next'
 
 const WebdavConfig: React.FC = () => {
   const { t } = useTranslation()
-  const { appConfig, patchAppConfig } = useAppConfig()
+  const { appConfig, patchAppConfig, mutateAppConfig } = useAppConfig()
   const {
     webdavUrl,
     webdavUsername,
     webdavPassword,
     webdavDir = 'mihomo-party',
-    webdavMaxBackups = 0
+    webdavMaxBackups = 0,
+    webdavBackupCron = ''
   } = appConfig || {}
   const [backuping, setBackuping] = useState(false)
   const [restoring, setRestoring] = useState(false)
   const [filenames, setFilenames] = useState<string[]>([])
   const [restoreOpen, setRestoreOpen] = useState(false)
+  const [backupCron, setBackupCron] = useState(webdavBackupCron)
 
   const [webdav, setWebdav] = useState({
     webdavUrl,
@@ -135,6 +138,36 @@ const WebdavConfig: React.FC = () => {
             <SelectItem key="20">20</SelectItem>
           </Select>
         </SettingItem>
+        <SettingItem title={t('webdav.backupCron')} divider>
+          <div className="flex w-[60%] gap-2">
+            {backupCron !== webdavBackupCron && (
+              <Button
+                size="sm"
+                color="primary"
+                onPress={async () => {
+                  if (!backupCron || isValidCron(backupCron)) {
+                    try {
+                      await setWebdavBackupCron(backupCron)
+                      mutateAppConfig()
+                    } catch (e) {
+                      alert(e)
+                    }
+                  } else {
+                    alert(t('common.error.invalidCron'))
+                  }
+                }}
+              >
+                {t('common.confirm')}
+              </Button>
+            )}
+            <Input
+              size="sm"
+              value={backupCron}
+              placeholder={t('webdav.backupCronPlaceholder')}
+              onValueChange={setBackupCron}
+            />
+          </div>
+        </SettingItem>
         <div className="flex justify0between">
           <Button isLoading={backuping} fullWidth size="sm" className="mr-1" onPress={handleBackup}>
             {t('webdav.backup')}
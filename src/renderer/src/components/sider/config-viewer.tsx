@@ -1,25 +1,76 @@
-import { Modal, ModalContent, ModalHeader, ModalBody, ModalFooter, Button } from '@heroui/react'
-import React, { useEffect, useState } from 'react'
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Chip
+} from '@heroui/react'
+import React, { useEffect, useMemo, useState } from 'react'
 import { BaseEditor } from '../base/base-editor'
-import { getRuntimeConfigStr } from '@renderer/utils/ipc'
+import { getRuntimeConfigStr, getRuntimeProvenance } from '@renderer/utils/ipc'
+import { isMap, isScalar, isSeq, Node, parseDocument } from 'yaml'
 import { useTranslation } from 'react-i18next'
+import { keyedSections } from '../../../../shared/provenance'
 
 interface Props {
   onClose: () => void
 }
+
+// 根据光标位置找到对应的配置路径
+function pathAt(node: unknown, offset: number, path: string[] = []): string[] {
+  if (!isMap(node)) return path
+  for (const pair of node.items) {
+    const key = pair.key as Node | null
+    if (!isScalar(key) || !key.range) continue
+    const end = (pair.value as Node | null)?.range?.[2] ?? key.range[2]
+    if (offset < key.range[0] || offset > end) continue
+    const next = [...path, String(key.value)]
+    const identify = path.length === 0 ? keyedSections[String(key.value)] : undefined
+    if (identify && isSeq(pair.value)) {
+      const items = pair.value.items as Node[]
+      const index = items.findIndex((item) => item.range && offset <= item.range[2])
+      return index === -1 ? next : [...next, identify(items[index].toJSON(), index)]
+    }
+    return pathAt(pair.value, offset, next)
+  }
+  return path
+}
+
 const ConfigViewer: React.FC<Props> = (props) => {
   const { t } = useTranslation()
   const { onClose } = props
   const [currData, setCurrData] = useState('')
+  const [provenance, setProvenance] = useState<IConfigProvenance>()
+  const [selected, setSelected] = useState<string[]>([])
 
   const getContent = async (): Promise<void> => {
     setCurrData(await getRuntimeConfigStr())
+    setProvenance(await getRuntimeProvenance())
   }
 
   useEffect(() => {
     getContent()
   }, [])
 
+  const doc = useMemo(() => parseDocument(currData), [currData])
+
+  // 父级字段汇总所有子字段的来源
+  const history = useMemo(() => {
+    if (!provenance || selected.length === 0) return []
+    const key = JSON.stringify(selected)
+    const prefix = `${key.slice(0, -1)},`
+    const indexes = new Set<number>()
+    for (const [path, layers] of Object.entries(provenance.paths)) {
+      if (path === key || path.startsWith(prefix)) layers.forEach((i) => indexes.add(i))
+    }
+    return Array.from(indexes).sort((a, b) => a - b)
+  }, [provenance, selected])
+
+  const layerName = (layer: IConfigLayer): string =>
+    t(`sider.cards.configLayer.${layer.type}`, { name: layer.name || layer.id })
+
   return (
     <Modal
       backdrop="blur"
@@ -32,8 +83,52 @@ const ConfigViewer: React.FC<Props> = (props) => {
     >
       <ModalContent className="h-full w-[calc(100%-100px)]">
         <ModalHeader className="flex pb-0 app-drag">{t('sider.cards.config')}</ModalHeader>
-        <ModalBody className="h-full">
-          <BaseEditor language="yaml" value={currData} readOnly={true} />
+        <ModalBody className="h-full flex flex-row gap-2">
+          <div className="flex-1 h-full">
+            <BaseEditor
+              language="yaml"
+              value={currData}
+              readOnly={true}
+              onCursorChange={(offset) => setSelected(pathAt(doc.contents, offset))}
+            />
+          </div>
+          <div className="w-[280px] h-full flex flex-col gap-2 overflow-y-auto">
+            <span className="font-bold">{t('sider.cards.configSource')}</span>
+            {selected.length === 0 ? (
+              <small className="text-foreground-500">{t('sider.cards.configSourceHint')}</small>
+            ) : (
+              <>
+                <small className="font-mono select-text break-all">{selected.join(' › ')}</small>
+                {history.length === 0 && (
+                  <small className="text-foreground-500">
+                    {t('sider.cards.configSourceUnknown')}
+                  </small>
+                )}
+                {history.length > 0 &&
+                  provenance?.layers.map((layer, index) => (
+                    <div key={index} className="flex items-center justify-between gap-2">
+                      <small
+                        className={`break-all ${history.includes(index) ? '' : 'text-foreground-400'}`}
+                      >
+                        {layerName(layer)}
+                      </small>
+                      {history.includes(index) && (
+                        <Chip
+                          size="sm"
+                          variant="flat"
+                          className="shrink-0"
+                          color={index === history[history.length - 1] ? 'primary' : 'default'}
+                        >
+                          {index === history[0]
+                            ? t('sider.cards.configSourceIntroduced')
+                            : t('sider.cards.configSourceModified')}
+                        </Chip>
+                      )}
+                    </div>
+                  ))}
+              </>
+            )}
+          </div>
         </ModalBody>
         <ModalFooter className="pt-0">
           <Button size="sm" variant="light" onPress={onClose}>
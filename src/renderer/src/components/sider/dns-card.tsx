@@ -17,7 +17,10 @@ const DNSCard: React.FC<Props> = (props) => {
   const { t } = useTranslation()
   const { appConfig, patchAppConfig } = useAppConfig()
   const { iconOnly } = props
-  const { dnsCardStatus = 'col-span-1', controlDns = true } = appConfig || {}
+  const { dnsCardStatus = 'col-span-1', configPolicy } = appConfig || {}
+  const controlDns = configPolicy?.dns !== 'profile'
+  // 开关只在合并和订阅优先之间切换，完全由应用接管时保持原策略，需在设置中修改
+  const appOnly = configPolicy?.dns === 'app'
   const location = useLocation()
   const navigate = useNavigate()
   const match = location.pathname.includes('/dns')
@@ -33,9 +36,12 @@ const DNSCard: React.FC<Props> = (props) => {
     id: 'dns'
   })
   const transform = tf ? { x: tf.x, y: tf.y, scaleX: 1, scaleY: 1 } : null
-  const onChange = async (controlDns: boolean): Promise<void> => {
+  const onChange = async (enable: boolean): Promise<void> => {
+    // 关闭时由订阅配置优先，开启时恢复为合并
+    const policy: ConfigPolicy = enable ? 'merge' : 'profile'
     try {
-      await patchAppConfig({ controlDns })
+      const hosts = configPolicy?.hosts === 'app' ? 'app' : policy
+      await patchAppConfig({ configPolicy: { ...configPolicy, dns: policy, hosts } })
       await patchControledMihomoConfig({})
       await restartCore()
     } catch (e) {
@@ -95,7 +101,7 @@ const DNSCard: React.FC<Props> = (props) => {
             <BorderSwitch
               isShowBorder={match && controlDns}
               isSelected={controlDns}
-              isDisabled={false}
+              isDisabled={appOnly}
               onValueChange={onChange}
             />
           </div>
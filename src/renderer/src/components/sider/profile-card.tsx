@@ -190,7 +190,7 @@ const ProfileCard: React.FC<Props> = (props) => {
                 <small>{dayjs(info.updated).fromNow()}</small>
               </div>
             )}
-            {info.type === 'local' && (
+            {info.type !== 'remote' && (
               <div
                 className={`mt-2 flex justify-between ${match ? 'text-primary-foreground' : 'text-foreground'}`}
               >
@@ -199,7 +199,7 @@ const ProfileCard: React.FC<Props> = (props) => {
                   variant="bordered"
                   className={`${match ? 'text-primary-foreground border-primary-foreground' : 'border-primary text-primary'}`}
                 >
-                  {t('sider.cards.local')}
+                  {info.type === 'linked' ? t('profiles.linked') : t('sider.cards.local')}
                 </Chip>
               </div>
             )}
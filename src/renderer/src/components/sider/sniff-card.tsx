@@ -17,7 +17,10 @@ const SniffCard: React.FC<Props> = (props) => {
   const { t } = useTranslation()
   const { appConfig, patchAppConfig } = useAppConfig()
   const { iconOnly } = props
-  const { sniffCardStatus = 'col-span-1', controlSniff = true } = appConfig || {}
+  const { sniffCardStatus = 'col-span-1', configPolicy } = appConfig || {}
+  const controlSniff = configPolicy?.sniffer !== 'profile'
+  // 完全由应用接管的策略不在卡片上切换
+  const appOnly = configPolicy?.sniffer === 'app'
   const location = useLocation()
   const navigate = useNavigate()
   const match = location.pathname.includes('/sniffer')
@@ -33,9 +36,11 @@ const SniffCard: React.FC<Props> = (props) => {
     id: 'sniff'
   })
   const transform = tf ? { x: tf.x, y: tf.y, scaleX: 1, scaleY: 1 } : null
-  const onChange = async (controlSniff: boolean): Promise<void> => {
+  const onChange = async (enable: boolean): Promise<void> => {
+    // 关闭时由订阅配置优先，开启时恢复为合并
+    const policy: ConfigPolicy = enable ? 'merge' : 'profile'
     try {
-      await patchAppConfig({ controlSniff })
+      await patchAppConfig({ configPolicy: { ...configPolicy, sniffer: policy } })
       await patchControledMihomoConfig({})
       await restartCore()
     } catch (e) {
@@ -96,6 +101,7 @@ const SniffCard: React.FC<Props> = (props) => {
             <BorderSwitch
               isShowBorder={match && controlSniff}
               isSelected={controlSniff}
+              isDisabled={appOnly}
               onValueChange={onChange}
             />
           </div>
@@ -13,8 +13,10 @@ const DNS: React.FC = () => {
   const { t } = useTranslation()
   const { controledMihomoConfig, patchControledMihomoConfig } = useControledMihomoConfig()
   const { appConfig, patchAppConfig } = useAppConfig()
-  const { nameserverPolicy, useNameserverPolicy, controlDns = true } = appConfig || {}
+  const { nameserverPolicy, configPolicy } = appConfig || {}
+  const controlDns = configPolicy?.dns !== 'profile'
   const { dns, hosts } = controledMihomoConfig || {}
+  const useNameserverPolicy = !!dns?.['nameserver-policy']
   const {
     enable = true,
     ipv6 = false,
@@ -122,8 +124,7 @@ const DNS: React.FC = () => {
     await patchAppConfig({
       nameserverPolicy: Object.fromEntries(
         values.nameserverPolicy.map(({ domain, value }) => [domain, value])
-      ),
-      useNameserverPolicy: values.useNameserverPolicy
+      )
     })
     try {
       setChanged(false)
@@ -163,11 +164,11 @@ const DNS: React.FC = () => {
                 fallback: undefined,
                 'fallback-filter': undefined
               }
-              if (values.useNameserverPolicy) {
-                dnsConfig['nameserver-policy'] = Object.fromEntries(
-                  values.nameserverPolicy.map(({ domain, value }) => [domain, value])
-                )
-              }
+              dnsConfig['nameserver-policy'] = values.useNameserverPolicy
+                ? Object.fromEntries(
+                    values.nameserverPolicy.map(({ domain, value }) => [domain, value])
+                  )
+                : undefined
               const result = { dns: dnsConfig }
               if (values.useHosts) {
                 result['hosts'] = Object.fromEntries(
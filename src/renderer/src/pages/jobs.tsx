@@ -0,0 +1,59 @@
+import BasePage from '@renderer/components/base/base-page'
+import SettingCard from '@renderer/components/base/base-setting-card'
+import JobItem from '@renderer/components/jobs/job-item'
+import JobHistoryModal from '@renderer/components/jobs/job-history-modal'
+import { Divider } from '@heroui/react'
+import { getJobs } from '@renderer/utils/ipc'
+import { Fragment, useEffect, useMemo, useState } from 'react'
+import useSWR from 'swr'
+import { useTranslation } from 'react-i18next'
+
+const jobTypes: JobType[] = ['profile', 'geo', 'substore', 'backup', 'schedule', 'alert']
+
+const Jobs: React.FC = () => {
+  const { t } = useTranslation()
+  const { data: jobs = [], mutate } = useSWR('getJobs', getJobs, { refreshInterval: 10000 })
+  const [inspecting, setInspecting] = useState<string>()
+
+  useEffect(() => {
+    window.electron.ipcRenderer.on('jobsUpdated', () => {
+      mutate()
+    })
+    return (): void => {
+      window.electron.ipcRenderer.removeAllListeners('jobsUpdated')
+    }
+  }, [])
+
+  const groups = useMemo(
+    () =>
+      jobTypes
+        .map((type) => ({ type, items: jobs.filter((job) => job.type === type) }))
+        .filter((group) => group.items.length > 0),
+    [jobs]
+  )
+  const inspectingJob = jobs.find((job) => job.id === inspecting)
+
+  return (
+    <BasePage title={t('jobs.title')}>
+      {inspectingJob && (
+        <JobHistoryModal job={inspectingJob} onClose={() => setInspecting(undefined)} />
+      )}
+      {groups.length === 0 && (
+        <div className="text-center text-foreground-500 mt-4">{t('jobs.empty')}</div>
+      )}
+      {groups.map(({ type, items }) => (
+        <SettingCard key={type}>
+          <div className="text-foreground-500 text-sm mb-2">{t(`jobs.type.${type}`)}</div>
+          {items.map((job, index) => (
+            <Fragment key={job.id}>
+              <JobItem job={job} mutate={mutate} onInspect={() => setInspecting(job.id)} />
+              {index < items.length - 1 && <Divider className="my-2" />}
+            </Fragment>
+          ))}
+        </SettingCard>
+      ))}
+    </BasePage>
+  )
+}
+
+export default Jobs
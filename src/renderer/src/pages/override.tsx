@@ -8,9 +8,10 @@ import {
   Input
 } from '@heroui/react'
 import BasePage from '@renderer/components/base/base-page'
-import { getFilePath, readTextFile } from '@renderer/utils/ipc'
+import { getFilePath, getOverrideStatus, readTextFile } from '@renderer/utils/ipc'
 import { useEffect, useRef, useState } from 'react'
-import { MdContentPaste } from 'react-icons/md'
+import useSWR from 'swr'
+import { MdContentPaste, MdOutlinePreview } from 'react-icons/md'
 import {
   DndContext,
   closestCenter,
@@ -25,6 +26,7 @@ import OverrideItem from '@renderer/components/override/override-item'
 import { FaPlus } from 'react-icons/fa6'
 import { HiOutlineDocumentText } from 'react-icons/hi'
 import { RiArchiveLine } from 'react-icons/ri'
+import PipelinePreviewModal from '@renderer/components/override/pipeline-preview-modal'
 import { useTranslation } from 'react-i18next'
 
 const Override: React.FC = () => {
@@ -38,10 +40,12 @@ const Override: React.FC = () => {
     mutateOverrideConfig
   } = useOverrideConfig()
   const { items = [] } = overrideConfig || {}
+  const { data: status = {}, mutate: mutateStatus } = useSWR('getOverrideStatus', getOverrideStatus)
   const [sortedItems, setSortedItems] = useState(items)
   const [importing, setImporting] = useState(false)
   const [fileOver, setFileOver] = useState(false)
   const [url, setUrl] = useState('')
+  const [openPreview, setOpenPreview] = useState(false)
   const sensors = useSensors(useSensor(PointerSensor))
   const handleImport = async (): Promise<void> => {
     setImporting(true)
@@ -120,12 +124,31 @@ const Override: React.FC = () => {
     setSortedItems(items)
   }, [items])
 
+  useEffect(() => {
+    window.electron.ipcRenderer.on('overrideStatusUpdated', () => {
+      mutateStatus()
+    })
+    return (): void => {
+      window.electron.ipcRenderer.removeAllListeners('overrideStatusUpdated')
+    }
+  }, [])
+
   return (
     <BasePage
       ref={pageRef}
       title={t('override.title')}
       header={
         <>
+          <Button
+            size="sm"
+            variant="light"
+            title={t('override.preview.title')}
+            isIconOnly
+            className="app-nodrag"
+            onPress={() => setOpenPreview(true)}
+          >
+            <MdOutlinePreview className="text-lg" />
+          </Button>
           <Button
             size="sm"
             variant="light"
@@ -153,6 +176,7 @@ const Override: React.FC = () => {
         </>
       }
     >
+      {openPreview && <PipelinePreviewModal onClose={() => setOpenPreview(false)} />}
       <div className="sticky top-0 z-40 bg-background">
         <div className="flex p-2">
           <Input
@@ -250,6 +274,7 @@ const Override: React.FC = () => {
                 mutateOverrideConfig={mutateOverrideConfig}
                 updateOverrideItem={updateOverrideItem}
                 info={item}
+                status={status[item.id]}
               />
             ))}
           </SortableContext>
@@ -7,16 +7,29 @@ import {
   DropdownItem,
   DropdownMenu,
   DropdownTrigger,
-  Input
+  Input,
+  Select,
+  SelectItem
 } from '@heroui/react'
 import BasePage from '@renderer/components/base/base-page'
 import ProfileItem from '@renderer/components/profiles/profile-item'
+import BulkUpdateModal from '@renderer/components/profiles/bulk-update-modal'
+import CompositeModal from '@renderer/components/profiles/composite-modal'
 import { useProfileConfig } from '@renderer/hooks/use-profile-config'
 import { useAppConfig } from '@renderer/hooks/use-app-config'
-import { getFilePath, readTextFile, subStoreCollections, subStoreSubs } from '@renderer/utils/ipc'
+import { useOverrideConfig } from '@renderer/hooks/use-override-config'
+import {
+  addProfileUpdater,
+  getFilePath,
+  readTextFile,
+  restartCore,
+  subStoreCollections,
+  subStoreSubs,
+  updateProfileItem as update
+} from '@renderer/utils/ipc'
 import type { KeyboardEvent } from 'react'
 import { ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import { MdContentPaste } from 'react-icons/md'
+import { MdChecklist, MdContentPaste } from 'react-icons/md'
 import {
   DndContext,
   closestCenter,
@@ -45,6 +58,8 @@ const Profiles: React.FC = () => {
     mutateProfileConfig
   } = useProfileConfig()
   const { appConfig } = useAppConfig()
+  const { overrideConfig } = useOverrideConfig()
+  const { items: overrideItems = [] } = overrideConfig || {}
   const { useSubStore = true, useCustomSubStore = false, customSubStoreUrl = '' } = appConfig || {}
   const { current, items = [] } = profileConfig || {}
   const navigate = useNavigate()
@@ -52,7 +67,13 @@ const Profiles: React.FC = () => {
   const [useProxy, setUseProxy] = useState(false)
   const [subStoreImporting, setSubStoreImporting] = useState(false)
   const [importing, setImporting] = useState(false)
-  const [updating, setUpdating] = useState(false)
+  const [bulkUpdateItems, setBulkUpdateItems] = useState<IProfileItem[]>()
+  const [openComposite, setOpenComposite] = useState(false)
+  const [search, setSearch] = useState('')
+  const [folder, setFolder] = useState('')
+  const [filterTags, setFilterTags] = useState<string[]>([])
+  const [selectMode, setSelectMode] = useState(false)
+  const [selected, setSelected] = useState<string[]>([])
   const [fileOver, setFileOver] = useState(false)
   const [url, setUrl] = useState('')
   const isUrlEmpty = url.trim() === ''
@@ -123,6 +144,55 @@ const Profiles: React.FC = () => {
     }
     return items
   }, [subs, collections])
+  const allTags = useMemo(
+    () => Array.from(new Set(items.flatMap((item) => item.tags ?? []))).sort(),
+    [items]
+  )
+  const folders = useMemo(
+    () =>
+      Array.from(new Set(items.map((item) => item.folder).filter(Boolean) as string[])).sort(),
+    [items]
+  )
+  const filteredItems = useMemo(() => {
+    const keyword = search.trim().toLowerCase()
+    return sortedItems.filter((item) => {
+      if (folder && item.folder !== folder) return false
+      if (filterTags.some((tag) => !item.tags?.includes(tag))) return false
+      if (!keyword) return true
+      return (
+        item.name.toLowerCase().includes(keyword) ||
+        !!item.url?.toLowerCase().includes(keyword)
+      )
+    })
+  }, [sortedItems, search, folder, filterTags])
+  const selectedItems = items.filter((item) => selected.includes(item.id))
+
+  const bulkDelete = async (): Promise<void> => {
+    if (!confirm(t('profiles.bulk.deleteConfirm', { count: selectedItems.length }))) return
+    for (const item of selectedItems) {
+      await removeProfileItem(item.id)
+    }
+    setSelected([])
+  }
+
+  const bulkAttachOverride = async (id: string): Promise<void> => {
+    try {
+      for (const item of selectedItems) {
+        if (item.override?.includes(id)) continue
+        const updatedItem = { ...item, override: (item.override ?? []).concat(id) }
+        await update(updatedItem)
+        await addProfileUpdater(updatedItem)
+      }
+      if (selectedItems.some((item) => item.id === current)) {
+        await restartCore()
+      }
+    } catch (e) {
+      alert(e)
+    } finally {
+      mutateProfileConfig()
+    }
+  }
+
   const handleImport = async (): Promise<void> => {
     setImporting(true)
     await addProfileItem({ name: '', type: 'remote', url, useProxy })
@@ -137,9 +207,9 @@ const Profiles: React.FC = () => {
       if (active.id !== over.id) {
         const newOrder = sortedItems.slice()
         const activeIndex = newOrder.findIndex((item) => item.id === active.id)
-        const overIndex = newOrder.findIndex((item) => item.id === over.id)
-        newOrder.splice(activeIndex, 1)
-        newOrder.splice(overIndex, 0, items[activeIndex])
+        const [activeItem] = newOrder.splice(activeIndex, 1)
+        const overIndex = sortedItems.findIndex((item) => item.id === over.id)
+        newOrder.splice(overIndex, 0, activeItem)
         setSortedItems(newOrder)
         await setProfileConfig({ current, items: newOrder })
       }
@@ -200,30 +270,51 @@ const Profiles: React.FC = () => {
       ref={pageRef}
       title={t('profiles.title')}
       header={
-        <Button
-          size="sm"
-          title={t('profiles.updateAll')}
-          className="app-nodrag"
-          variant="light"
-          isIconOnly
-          onPress={async () => {
-            setUpdating(true)
-            for (const item of items) {
-              if (item.id === current) continue
-              if (item.type !== 'remote') continue
-              await addProfileItem(item)
-            }
-            const currentItem = items.find((item) => item.id === current)
-            if (currentItem && currentItem.type === 'remote') {
-              await addProfileItem(currentItem)
-            }
-            setUpdating(false)
-          }}
-        >
-          <IoMdRefresh className={`text-lg ${updating ? 'animate-spin' : ''}`} />
-        </Button>
+        <>
+          <Button
+            size="sm"
+            title={t('profiles.bulk.select')}
+            className="app-nodrag"
+            variant={selectMode ? 'flat' : 'light'}
+            color={selectMode ? 'primary' : 'default'}
+            isIconOnly
+            onPress={() => {
+              setSelectMode(!selectMode)
+              setSelected([])
+            }}
+          >
+            <MdChecklist className="text-lg" />
+          </Button>
+          <Button
+            size="sm"
+            title={t('profiles.updateAll')}
+            className="app-nodrag"
+            variant="light"
+            isIconOnly
+            onPress={() => {
+              setBulkUpdateItems(items.filter((item) => item.type === 'remote'))
+            }}
+          >
+            <IoMdRefresh className={`text-lg ${bulkUpdateItems ? 'animate-spin' : ''}`} />
+          </Button>
+        </>
       }
     >
+      {bulkUpdateItems && (
+        <BulkUpdateModal
+          items={bulkUpdateItems}
+          current={current}
+          mutateProfileConfig={mutateProfileConfig}
+          onClose={() => setBulkUpdateItems(undefined)}
+        />
+      )}
+      {openComposite && (
+        <CompositeModal
+          items={items}
+          mutateProfileConfig={mutateProfileConfig}
+          onClose={() => setOpenComposite(false)}
+        />
+      )}
       <div className="sticky profiles-sticky top-0 z-40 bg-background">
         <div className="flex p-2">
           <Input
@@ -362,20 +453,131 @@ const Profiles: React.FC = () => {
                   } catch (e) {
                     alert(e)
                   }
+                } else if (key === 'link') {
+                  try {
+                    const files = await getFilePath(['yml', 'yaml'])
+                    if (files?.length) {
+                      const fileName = files[0].split('/').pop()?.split('\\').pop()
+                      await addProfileItem({ name: fileName, type: 'linked', path: files[0] })
+                    }
+                  } catch (e) {
+                    alert(e)
+                  }
                 } else if (key === 'new') {
                   await addProfileItem({
                     name: t('profiles.newProfile'),
                     type: 'local',
                     file: 'proxies: []\nproxy-groups: []\nrules: []'
                   })
+                } else if (key === 'composite') {
+                  setOpenComposite(true)
                 }
               }}
             >
               <DropdownItem key="open">{t('profiles.open')}</DropdownItem>
+              <DropdownItem key="link">{t('profiles.link')}</DropdownItem>
               <DropdownItem key="new">{t('profiles.new')}</DropdownItem>
+              <DropdownItem key="composite">{t('profiles.composite.new')}</DropdownItem>
             </DropdownMenu>
           </Dropdown>
         </div>
+        <div className="flex flex-wrap items-center gap-2 px-2 pb-2">
+          <Input
+            size="sm"
+            className="flex-1 min-w-[200px]"
+            value={search}
+            placeholder={t('profiles.filter.search')}
+            isClearable
+            onValueChange={setSearch}
+          />
+          {folders.length > 0 && (
+            <Select
+              size="sm"
+              className="w-[160px]"
+              aria-label={t('profiles.filter.folder')}
+              selectedKeys={new Set([folder])}
+              disallowEmptySelection
+              onSelectionChange={(v) => setFolder(Array.from(v)[0] as string)}
+            >
+              {[
+                <SelectItem key="">{t('profiles.filter.allFolders')}</SelectItem>,
+                ...folders.map((f) => <SelectItem key={f}>{f}</SelectItem>)
+              ]}
+            </Select>
+          )}
+          {allTags.map((tag) => (
+            <Chip
+              key={tag}
+              size="sm"
+              className="cursor-pointer"
+              variant={filterTags.includes(tag) ? 'solid' : 'bordered'}
+              color={filterTags.includes(tag) ? 'primary' : 'default'}
+              onClick={() => {
+                setFilterTags(
+                  filterTags.includes(tag)
+                    ? filterTags.filter((t) => t !== tag)
+                    : filterTags.concat(tag)
+                )
+              }}
+            >
+              {tag}
+            </Chip>
+          ))}
+        </div>
+        {selectMode && (
+          <div className="flex items-center gap-2 px-2 pb-2">
+            <small className="flex-1">
+              {t('profiles.bulk.selected', { count: selectedItems.length })}
+            </small>
+            <Button
+              size="sm"
+              variant="flat"
+              onPress={() => {
+                const ids = filteredItems.map((item) => item.id)
+                setSelected(ids.every((id) => selected.includes(id)) ? [] : ids)
+              }}
+            >
+              {t('profiles.bulk.selectAll')}
+            </Button>
+            <Button
+              size="sm"
+              variant="flat"
+              color="primary"
+              isDisabled={!selectedItems.some((item) => item.type !== 'local')}
+              onPress={() => {
+                setBulkUpdateItems(selectedItems.filter((item) => item.type !== 'local'))
+              }}
+            >
+              {t('profiles.bulk.update')}
+            </Button>
+            <Dropdown>
+              <DropdownTrigger>
+                <Button size="sm" variant="flat" isDisabled={selectedItems.length === 0}>
+                  {t('profiles.bulk.attachOverride')}
+                </Button>
+              </DropdownTrigger>
+              <DropdownMenu
+                emptyContent={t('profiles.editInfo.override.noAvailable')}
+                onAction={(key) => bulkAttachOverride(key.toString())}
+              >
+                {overrideItems
+                  .filter((i) => !i.global)
+                  .map((i) => (
+                    <DropdownItem key={i.id}>{i.name}</DropdownItem>
+                  ))}
+              </DropdownMenu>
+            </Dropdown>
+            <Button
+              size="sm"
+              variant="flat"
+              color="danger"
+              isDisabled={selectedItems.length === 0}
+              onPress={bulkDelete}
+            >
+              {t('common.delete')}
+            </Button>
+          </div>
+        )}
         <Divider />
       </div>
       <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={onDragEnd}>
@@ -383,20 +585,29 @@ const Profiles: React.FC = () => {
           className={`${fileOver ? 'blur-sm' : ''} grid sm:grid-cols-2 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-2 m-2`}
         >
           <SortableContext
-            items={sortedItems.map((item) => {
+            items={filteredItems.map((item) => {
               return item.id
             })}
           >
-            {sortedItems.map((item) => (
+            {filteredItems.map((item) => (
               <ProfileItem
                 key={item.id}
                 isCurrent={item.id === current}
+                isSelected={selectMode && selected.includes(item.id)}
                 addProfileItem={addProfileItem}
                 removeProfileItem={removeProfileItem}
                 mutateProfileConfig={mutateProfileConfig}
                 updateProfileItem={updateProfileItem}
                 info={item}
                 onPress={async () => {
+                  if (selectMode) {
+                    setSelected(
+                      selected.includes(item.id)
+                        ? selected.filter((id) => id !== item.id)
+                        : selected.concat(item.id)
+                    )
+                    return
+                  }
                   await changeCurrentProfile(item.id)
                 }}
               />
@@ -10,16 +10,33 @@ import ShortcutConfig from '@renderer/components/settings/shortcut-config'
 import { FaTelegramPlane } from 'react-icons/fa'
 import SiderConfig from '@renderer/components/settings/sider-config'
 import SubStoreConfig from '@renderer/components/settings/substore-config'
+import SubscriptionAlertConfig from '@renderer/components/settings/subscription-alert-config'
+import ScheduleConfig from '@renderer/components/settings/schedule-config'
+import NetworkRuleConfig from '@renderer/components/settings/network-rule-config'
+import ConfigPolicyConfig from '@renderer/components/settings/config-policy-config'
+import { MdSchedule } from 'react-icons/md'
+import { useNavigate } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
 
 const Settings: React.FC = () => {
   const { t } = useTranslation()
+  const navigate = useNavigate()
 
   return (
     <BasePage
       title={t('settings.title')}
       header={
         <>
+          <Button
+            isIconOnly
+            size="sm"
+            variant="light"
+            title={t('jobs.title')}
+            className="app-nodrag"
+            onPress={() => navigate('/jobs')}
+          >
+            <MdSchedule className="text-lg" />
+          </Button>
           <Button
             isIconOnly
             size="sm"
@@ -61,9 +78,13 @@ const Settings: React.FC = () => {
     >
       <GeneralConfig />
       <SubStoreConfig />
+      <SubscriptionAlertConfig />
+      <ScheduleConfig />
+      <NetworkRuleConfig />
       <SiderConfig />
       <WebdavConfig />
       <MihomoConfig />
+      <ConfigPolicyConfig />
       <ShortcutConfig />
       <Actions />
     </BasePage>
@@ -13,7 +13,8 @@ const Sniffer: React.FC = () => {
   const { t } = useTranslation()
   const { controledMihomoConfig, patchControledMihomoConfig } = useControledMihomoConfig()
   const { appConfig } = useAppConfig()
-  const { controlSniff = true } = appConfig || {}
+  const { configPolicy } = appConfig || {}
+  const controlSniff = configPolicy?.sniffer !== 'profile'
   const { sniffer } = controledMihomoConfig || {}
   const {
     enable = true,
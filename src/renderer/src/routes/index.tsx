@@ -13,6 +13,7 @@ import Resources from '@renderer/pages/resources'
 import DNS from '@renderer/pages/dns'
 import Sniffer from '@renderer/pages/sniffer'
 import SubStore from '@renderer/pages/substore'
+import Jobs from '@renderer/pages/jobs'
 const routes = [
   {
     path: '/mihomo',
@@ -70,6 +71,10 @@ const routes = [
     path: '/substore',
     element: <SubStore />
   },
+  {
+    path: '/jobs',
+    element: <Jobs />
+  },
   {
     path: '/',
     element: <Navigate to="/proxies" />
@@ -171,6 +171,13 @@ export async function getProfileStr(id: string): Promise<string> {
   return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('getProfileStr', id))
 }
 
+export async function previewProxyFilter(
+  id: string,
+  filter: IProxyFilter
+): Promise<IProxyFilterPreview> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('previewProxyFilter', id, filter))
+}
+
 export async function getFileStr(id: string): Promise<string> {
   return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('getFileStr', id))
 }
@@ -183,6 +190,90 @@ export async function setProfileStr(id: string, str: string): Promise<void> {
   return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('setProfileStr', id, str))
 }
 
+export async function checkSubscriptionAlerts(): Promise<void> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('checkSubscriptionAlerts'))
+}
+
+export async function setSchedules(schedules: IScheduleItem[]): Promise<void> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('setSchedules', schedules))
+}
+
+export async function getScheduleNextRuns(count?: number): Promise<Record<string, number[]>> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('getScheduleNextRuns', count))
+}
+
+export async function runSchedule(id: string): Promise<void> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('runSchedule', id))
+}
+
+export async function getScheduleLogs(): Promise<IScheduleLog[]> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('getScheduleLogs'))
+}
+
+export async function clearScheduleLogs(): Promise<void> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('clearScheduleLogs'))
+}
+
+export async function getNetworkInfo(): Promise<INetworkInfo> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('getNetworkInfo'))
+}
+
+export async function setNetworkRules(rules: INetworkRule[]): Promise<void> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('setNetworkRules', rules))
+}
+
+export async function getJobs(): Promise<IJobInfo[]> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('getJobs'))
+}
+
+export async function getJobHistory(id: string): Promise<IJobRun[]> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('getJobHistory', id))
+}
+
+export async function runJob(id: string): Promise<IJobRun> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('runJob', id))
+}
+
+export async function pauseJob(id: string): Promise<void> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('pauseJob', id))
+}
+
+export async function resumeJob(id: string): Promise<void> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('resumeJob', id))
+}
+
+export async function initGeoUpdater(): Promise<void> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('initGeoUpdater'))
+}
+
+export async function getProfileHistory(id: string): Promise<IProfileHistoryItem[]> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('getProfileHistory', id))
+}
+
+export async function getProfileHistoryStr(id: string, version: string): Promise<string> {
+  return ipcErrorWrapper(
+    await window.electron.ipcRenderer.invoke('getProfileHistoryStr', id, version)
+  )
+}
+
+export async function restoreProfileHistory(
+  id: string,
+  version: string,
+  pauseUpdate?: boolean
+): Promise<void> {
+  return ipcErrorWrapper(
+    await window.electron.ipcRenderer.invoke('restoreProfileHistory', id, version, pauseUpdate)
+  )
+}
+
+export async function acceptProfileUpdate(id: string): Promise<void> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('acceptProfileUpdate', id))
+}
+
+export async function discardProfileUpdate(id: string): Promise<void> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('discardProfileUpdate', id))
+}
+
 export async function getOverrideConfig(force = false): Promise<IOverrideConfig> {
   return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('getOverrideConfig', force))
 }
@@ -219,6 +310,10 @@ export async function restartCore(): Promise<void> {
   return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('restartCore'))
 }
 
+export async function previewOverridePipeline(id?: string): Promise<IOverridePreview> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('previewOverridePipeline', id))
+}
+
 export async function startMonitor(): Promise<void> {
   return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('startMonitor'))
 }
@@ -277,6 +372,18 @@ export async function getRuntimeConfig(): Promise<IMihomoConfig> {
   return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('getRuntimeConfig'))
 }
 
+export async function getConfigPolicyExplain(): Promise<IConfigPolicyExplain[]> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('getConfigPolicyExplain'))
+}
+
+export async function getRuntimeProvenance(): Promise<IConfigProvenance> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('getRuntimeProvenance'))
+}
+
+export async function getOverrideStatus(): Promise<Record<string, IOverrideRunStatus>> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('getOverrideStatus'))
+}
+
 export async function checkUpdate(): Promise<IAppVersion | undefined> {
   return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('checkUpdate'))
 }
@@ -323,6 +430,10 @@ export async function webdavDelete(filename: string): Promise<void> {
   return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('webdavDelete', filename))
 }
 
+export async function setWebdavBackupCron(cron: string): Promise<void> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('setWebdavBackupCron', cron))
+}
+
 export async function setTitleBarOverlay(overlay: TitleBarOverlayOptions): Promise<void> {
   try {
     return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('setTitleBarOverlay', overlay))
@@ -371,6 +482,10 @@ export async function startSubStoreBackendServer(): Promise<void> {
   return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('startSubStoreBackendServer'))
 }
 
+export async function initSubStoreJobs(): Promise<void> {
+  return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('initSubStoreJobs'))
+}
+
 export async function stopSubStoreBackendServer(): Promise<void> {
   return ipcErrorWrapper(await window.electron.ipcRenderer.invoke('stopSubStoreBackendServer'))
 }
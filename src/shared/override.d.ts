@@ -0,0 +1,62 @@
+// 覆写脚本运行环境的类型声明，同时提供给覆写编辑器做代码提示
+
+type OverrideProxy = { name: string; type: string } & Record<string, unknown>
+
+type OverrideProxyGroup = {
+  name: string
+  type: string
+  proxies?: string[]
+  use?: string[]
+} & Record<string, unknown>
+
+type OverrideConfig = {
+  proxies?: OverrideProxy[]
+  'proxy-groups'?: OverrideProxyGroup[]
+  'proxy-providers'?: Record<string, Record<string, unknown>>
+  rules?: string[]
+} & Record<string, unknown>
+
+interface OverrideProfileInfo {
+  id: string
+  name: string
+  type: 'remote' | 'local' | 'linked' | 'composite'
+}
+
+/**
+ * 覆写脚本辅助函数，通过全局变量 `$party` 访问
+ *
+ * 接口只增不改，新增函数时 `version` 递增，脚本可据此判断可用的函数
+ */
+interface OverrideHelpers {
+  /** 辅助函数接口版本 */
+  readonly version: number
+  /** 应用版本，如 `1.8.0` */
+  readonly appVersion: string
+  /** 当前使用的内核 */
+  readonly core: 'mihomo' | 'mihomo-alpha' | 'mihomo-smart'
+  readonly yaml: {
+    parse(text: string): unknown
+    stringify(value: unknown): string
+  }
+  /** 按名称查找代理组 */
+  findGroup(config: OverrideConfig, name: string): OverrideProxyGroup | undefined
+  /** 查找名称匹配正则的代理组，字符串支持 `(?i)` 前缀 */
+  findGroups(config: OverrideConfig, pattern: string | RegExp): OverrideProxyGroup[]
+  /** 查找名称匹配正则的节点 */
+  filterProxies(config: OverrideConfig, pattern: string | RegExp): OverrideProxy[]
+  /** 将节点追加到代理组，已存在的节点会被跳过，代理组不存在时返回 false */
+  addProxiesToGroup(config: OverrideConfig, group: string, names: string[]): boolean
+  /** 将规则插入到 MATCH 规则之前，没有 MATCH 规则时追加到末尾 */
+  insertRules(config: OverrideConfig, rules: string[]): void
+  /** 列出所有订阅 */
+  listProfiles(): Promise<OverrideProfileInfo[]>
+  /** 读取其他订阅的原始配置，返回值只读 */
+  getProfile(id: string): Promise<Readonly<OverrideConfig> | undefined>
+  /** 读取其他订阅中定义的代理集合，返回值只读 */
+  getProxyProviders(id: string): Promise<Readonly<Record<string, Record<string, unknown>>>>
+}
+
+declare const $party: OverrideHelpers
+
+/** 当前订阅为该覆写提供的参数 */
+declare const $arguments: Readonly<Record<string, string | number | boolean>>
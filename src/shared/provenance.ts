@@ -0,0 +1,12 @@
+// 配置来源的路径规则，主进程和界面共用
+// 按名称或规则内容定位数组元素，保证节点增删后路径不变
+export const keyedSections: Record<string, (item: unknown, index: number) => string> = {
+  proxies: itemName,
+  'proxy-groups': itemName,
+  rules: (item, index) => (typeof item === 'string' ? item : `#${index}`)
+}
+
+function itemName(item: unknown, index: number): string {
+  const name = item && typeof item === 'object' ? (item as { name?: unknown }).name : undefined
+  return typeof name === 'string' ? name : `#${index}`
+}
@@ -0,0 +1,34 @@
+// 节点过滤的正则表达式，主进程和界面按相同方式解析
+export function compileFilterRegex(pattern: string | undefined, flags = 'u'): RegExp | undefined {
+  if (!pattern) return undefined
+  // 兼容 mihomo 过滤规则中常见的 (?i) 写法
+  const source = pattern.startsWith('(?i)') ? pattern.slice(4) : pattern
+  if (source !== pattern) flags += 'i'
+  for (const f of [flags, flags.replace('u', '')]) {
+    try {
+      return new RegExp(source, f)
+    } catch {
+      // unicode 模式下部分转义不合法，回退到普通模式
+    }
+  }
+  throw new Error(`Invalid regular expression: ${pattern}`)
+}
+
+export function isValidFilterRegex(pattern: string | undefined): boolean {
+  try {
+    compileFilterRegex(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// 返回第一个无效的正则表达式
+export function findInvalidFilterRegex(filter: IProxyFilter | undefined): string | undefined {
+  const patterns = [
+    filter?.include,
+    filter?.exclude,
+    ...(filter?.rename ?? []).map((r) => r.pattern)
+  ]
+  return patterns.find((pattern) => !isValidFilterRegex(pattern))
+}
@@ -35,6 +35,12 @@ type TunStack = 'gvisor' | 'mixed' | 'system'
 type FindProcessMode = 'off' | 'strict' | 'always'
 type DnsMode = 'normal' | 'fake-ip' | 'redir-host'
 type FilterMode = 'blacklist' | 'whitelist'
+type ConfigSection = 'dns' | 'sniffer' | 'tun' | 'hosts' | 'ports' | 'geox-url'
+type ConfigPolicy = 'app' | 'profile' | 'merge'
+type ConfigSource = 'app' | 'profile' | 'profileSettings'
+type OverrideParamType = 'string' | 'number' | 'boolean'
+type OverrideArgValue = string | number | boolean
+type ConfigLayerType = 'profile' | 'filter' | 'override' | 'app' | 'profileSettings' | 'enforced'
 type NetworkInterfaceInfo = os.NetworkInterfaceInfo
 
 interface IAppVersion {
@@ -240,7 +246,7 @@ interface IAppConfig {
   connectionCardStatus?: CardStatus
   dnsCardStatus?: CardStatus
   logCardStatus?: CardStatus
-  pauseSSID?: string[]
+  pauseSSID?: string[] // 已迁移到 networkRules
   mihomoCoreCardStatus?: CardStatus
   overrideCardStatus?: CardStatus
   profileCardStatus?: CardStatus
@@ -278,12 +284,25 @@ interface IAppConfig {
   sysProxy: ISysProxyConfig
   maxLogDays: number
   userAgent?: string
+  maxProfileHistory?: number
+  subscriptionAlert?: boolean
+  subscriptionAlertTraffic?: number
+  subscriptionAlertExpire?: number
+  subscriptionAlertInTray?: boolean
+  schedules?: IScheduleItem[]
+  profileDiffNotify?: boolean
+  networkRules?: INetworkRule[]
+  activeNetworkRule?: string
+  networkRuleSnapshot?: INetworkState
   delayTestConcurrency?: number
   delayTestUrl?: string
   delayTestTimeout?: number
+  overrideScriptTimeout?: number
+  overrideScriptMemoryLimit?: number
   encryptedPassword?: number[]
-  controlDns?: boolean
-  controlSniff?: boolean
+  controlDns?: boolean // 已迁移到 configPolicy
+  controlSniff?: boolean // 已迁移到 configPolicy
+  configPolicy?: Partial<Record<ConfigSection, ConfigPolicy>>
   useDockIcon?: boolean
   showTraffic?: boolean
   webdavUrl?: string
@@ -291,7 +310,8 @@ interface IAppConfig {
   webdavUsername?: string
   webdavPassword?: string
   webdavMaxBackups?: number
-  useNameserverPolicy: boolean
+  webdavBackupCron?: string
+  useNameserverPolicy?: boolean // 已迁移到 configPolicy
   nameserverPolicy: { [key: string]: string | string[] }
   showWindowShortcut?: string
   showFloatingWindowShortcut?: string
@@ -440,8 +460,41 @@ interface IOverrideItem {
   name: string
   updated: number
   global?: boolean
+  // 为 false 时所有订阅都跳过该覆写
+  enabled?: boolean
   url?: string
   file?: string
+  params?: IOverrideParam[]
+}
+
+// 覆写声明的参数，由各订阅分别提供取值
+interface IOverrideParam {
+  key: string
+  type: OverrideParamType
+  default?: OverrideArgValue
+  description?: string
+}
+
+// 最近一次执行覆写脚本的结果
+interface IOverrideRunStatus {
+  status: 'success' | 'error' | 'timeout'
+  message?: string
+  time: number
+  duration: number
+}
+
+interface IOverridePreviewStep {
+  layer: IConfigLayer
+  // 该步骤执行后的完整配置
+  content: string
+  duration: number
+  logs: string[]
+}
+
+interface IOverridePreview {
+  steps: IOverridePreviewStep[]
+  valid: boolean
+  message?: string
 }
 
 interface IOverrideConfig {
@@ -457,18 +510,204 @@ interface ISubscriptionUserInfo {
 
 interface IProfileItem {
   id: string
-  type: 'remote' | 'local'
+  type: 'remote' | 'local' | 'linked' | 'composite'
   name: string
   url?: string // remote
   file?: string // local
+  path?: string // linked
+  sources?: string[] // composite
+  primary?: string // composite
+  folder?: string
+  tags?: string[]
   interval?: number | string
   home?: string
   updated?: number
   override?: string[]
+  // 覆写 id -> 参数取值
+  overrideArgs?: Record<string, Record<string, OverrideArgValue>>
+  // 全局覆写与订阅覆写的执行顺序
+  overrideOrder?: string[]
+  // 该订阅跳过的全局覆写
+  skipGlobalOverride?: string[]
   useProxy?: boolean
+  mirrors?: string[]
+  timeout?: number
+  proxyFallback?: boolean
+  lastMirror?: string
+  userAgent?: string
+  headers?: Record<string, string>
+  skipCertVerify?: boolean
+  etag?: string
+  lastModified?: string
+  hash?: string
   extra?: ISubscriptionUserInfo
   substore?: boolean
   allowFixedInterval?: boolean
+  rejectReason?: string
+  rejectTime?: number
+  updateError?: string
+  updateFailures?: number
+  updateFailedTime?: number
+  confirmUpdate?: boolean
+  lastDiff?: IProfileDiff
+  pendingDiff?: IProfileDiff
+  discardedHash?: string
+  proxyFilter?: IProxyFilter
+  mihomoConfig?: Partial<IMihomoConfig>
+  alertState?: ISubscriptionAlertState
+}
+
+interface IProxyRenameRule {
+  pattern: string
+  replace: string
+}
+
+interface IProxyFilter {
+  include?: string
+  exclude?: string
+  rename?: IProxyRenameRule[]
+}
+
+interface IProxyFilterPreviewItem {
+  original: string
+  name?: string // 为空表示被过滤
+}
+
+interface IProxyFilterPreview {
+  proxies: IProxyFilterPreviewItem[]
+  droppedRules: string[]
+}
+
+interface IConfigPolicyValue {
+  path: string
+  value: unknown
+  source: ConfigSource
+}
+
+interface IConfigPolicyExplain {
+  section: ConfigSection
+  policy: ConfigPolicy
+  values: IConfigPolicyValue[]
+}
+
+interface IConfigLayer {
+  type: ConfigLayerType
+  id?: string
+  name?: string
+}
+
+interface IConfigProvenance {
+  layers: IConfigLayer[]
+  // 路径（JSON 数组字符串） -> 引入或修改该值的层序号，首个为引入层
+  paths: Record<string, number[]>
+}
+
+type ScheduleAction = 'changeProfile' | 'setMode' | 'setSysProxy' | 'setTun'
+
+interface IScheduleItem {
+  id: string
+  name: string
+  cron: string
+  enable: boolean
+  action: ScheduleAction
+  profile?: string // changeProfile
+  mode?: OutboundMode // setMode
+  value?: boolean // setSysProxy, setTun
+}
+
+interface IScheduleLog {
+  id: string
+  name: string
+  action: ScheduleAction
+  time: number
+  success: boolean
+  error?: string
+}
+
+type JobType = 'profile' | 'geo' | 'substore' | 'backup' | 'schedule' | 'alert'
+
+interface IJobRun {
+  time: number
+  duration: number
+  success: boolean
+  error?: string
+}
+
+interface IJobInfo {
+  id: string
+  type: JobType
+  name?: string
+  cron?: string
+  interval?: number // 分钟
+  paused: boolean
+  running: boolean
+  nextRun?: number
+  lastRun?: IJobRun
+}
+
+type NetworkMatchType = 'ssid' | 'gateway' | 'interface' | 'dnsSuffix'
+
+interface INetworkRule {
+  id: string
+  name: string
+  enable: boolean
+  match: NetworkMatchType
+  value: string
+  profile?: string
+  mode?: OutboundMode
+  sysProxy?: boolean
+  tun?: boolean
+  group?: string
+  proxy?: string
+}
+
+// 命中规则前的状态, 离开网络时恢复
+interface INetworkState {
+  profile?: string
+  mode?: OutboundMode
+  sysProxy?: boolean
+  tun?: boolean
+  group?: string
+  proxy?: string
+}
+
+interface INetworkInfo {
+  ssid?: string
+  gateway?: string
+  interface?: string
+  dnsSuffix: string[]
+}
+
+interface ISubscriptionAlertState {
+  traffic?: boolean
+  expire?: boolean
+}
+
+interface IProfileDiffSection {
+  added: string[]
+  removed: string[]
+  renamed: [string, string][]
+}
+
+interface IProfileDiffRule {
+  target: string
+  before: number
+  after: number
+}
+
+interface IProfileDiff {
+  time: number
+  proxies: IProfileDiffSection
+  groups: IProfileDiffSection
+  rules: IProfileDiffRule[]
+}
+
+interface IProfileHistoryItem {
+  version: string
+  time: number
+  size: number
+  url?: string
+  extra?: ISubscriptionUserInfo
 }
 
 interface ISubStoreSub {